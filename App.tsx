@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import LandingPage from './components/LandingPage';
 import SolarSystem3D from './components/SolarSystem3D';
 import SatelliteLab from './components/SatelliteLab';
@@ -8,9 +8,16 @@ import GravityLab from './components/GravityLab';
 import SolarPowerLab from './components/SolarPowerLab';
 import OrbitalLab from './components/OrbitalLab';
 import { ViewState } from './types';
+import AskTheLab from './components/AskTheLab';
+import UnitToggle from './components/UnitToggle';
+import { useRoute, navigate, useUrlState, oneOf } from './services/router';
 
 const App: React.FC = () => {
-  const [view, setView] = useState<ViewState>(ViewState.LANDING);
+  // The view lives in the URL so links and browser back/forward work
+  const { view } = useRoute();
+  const setView = (next: ViewState) => navigate(next);
+
+  const isLab = [ViewState.SATELLITE_LAB, ViewState.ROCKET_LAB, ViewState.GRAVITY_LAB, ViewState.SOLAR_LAB, ViewState.ORBITAL_LAB].includes(view);
 
   const renderView = () => {
     switch (view) {
@@ -20,7 +27,6 @@ const App: React.FC = () => {
       case ViewState.SOLAR_SYSTEM: 
         return (
           <SolarSystemWrapper 
-            initialMode="2D"
             onExit={() => setView(ViewState.LANDING)}
             onSatelliteLab={() => setView(ViewState.SATELLITE_LAB)}
             onRocketLab={() => setView(ViewState.ROCKET_LAB)}
@@ -53,13 +59,14 @@ const App: React.FC = () => {
   return (
     <main className="w-full h-screen bg-black text-white">
       {renderView()}
+      {isLab && <AskTheLab />}
+      {isLab && <UnitToggle />}
     </main>
   );
 };
 
 // Wrapper to handle the internal 2D -> 3D transition without polluting global ViewState excessively
 interface WrapperProps {
-  initialMode: '2D' | '3D';
   onExit: () => void;
   onSatelliteLab: () => void;
   onRocketLab: () => void;
@@ -68,8 +75,11 @@ interface WrapperProps {
   onOrbitalLab: () => void;
 }
 
-const SolarSystemWrapper: React.FC<WrapperProps> = ({ initialMode, onExit, onSatelliteLab, onRocketLab, onGravityLab, onSolarLab, onOrbitalLab }) => {
-  const [mode, setMode] = useState<'2D' | '3D'>(initialMode);
+const SolarSystemWrapper: React.FC<WrapperProps> = ({ onExit, onSatelliteLab, onRocketLab, onGravityLab, onSolarLab, onOrbitalLab }) => {
+  // Each 2D/3D switch is its own history entry
+  const [urlMode, setUrlMode] = useUrlState('mode', '2d', { push: true, parse: oneOf(['2d', '3d'] as const) });
+  const mode: '2D' | '3D' = urlMode === '3d' ? '3D' : '2D';
+  const setMode = (next: '2D' | '3D') => setUrlMode(next === '3D' ? '3d' : '2d');
 
   if (mode === '2D') {
     return (
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, X, Send, Square, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { ChatMessage, trimConversation } from '../services/labChat';
+import { labChatProvider } from '../services/geminiService';
+import { describeLabContext, getLabContext } from '../services/labContext';
+import { isAbortError } from '../services/requestControl';
+
+const SUGGESTIONS = [
+  'Why did my run turn out this way?',
+  'What should I change to improve it?',
+  'Explain the physics behind these numbers.',
+];
+
+// Chat side panel available in every lab. Each question is sent with the lab's live readings.
+const AskTheLab: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReadings, setShowReadings] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Stop streaming if the lab is left mid-answer
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  const ask = async (history: ChatMessage[]) => {
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setMessages([...history, { role: 'assistant', content: '' }]);
+    setStreaming(true);
+    setError(null);
+
+    try {
+      const context = describeLabContext(getLabContext());
+      for await (const text of labChatProvider.streamReply(trimConversation(history), context, controller.signal)) {
+        setMessages((prev) => {
+          const next = [...prev];
+          const last = next[next.length - 1];
+          next[next.length - 1] = { ...last, content: last.content + text };
+          return next;
+        });
+      }
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      // A reply stopped or failed before its first chunk is dropped, so it is never sent back as an empty turn
+      setMessages((prev) => (prev[prev.length - 1]?.content ? prev : prev.slice(0, -1)));
+      if (requestRef.current === controller) requestRef.current = null;
+      setStreaming(false);
+    }
+  };
+
+  const send = (text: string) => {
+    const question = text.trim();
+    if (!question || streaming) return;
+    setInput('');
+    ask([...messages, { role: 'user', content: question }]);
+  };
+
+  // Ask the last question again after a failure
+  const retry = () => {
+    const lastUser = messages.map((m) => m.role).lastIndexOf('user');
+    if (lastUser >= 0) ask(messages.slice(0, lastUser + 1));
+  };
+
+  const snapshot = getLabContext();
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed top-24 left-8 z-40 flex items-center gap-2 text-cyan-400 hover:text-white transition-colors bg-black/50 px-4 py-2 rounded border border-cyan-500/30 backdrop-blur-sm"
+      >
+        <MessageSquare className="w-5 h-5" /> Ask the Lab
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-0 left-0 z-40 h-full w-96 max-w-full bg-slate-950/95 border-r border-cyan-500/30 backdrop-blur-md flex flex-col text-white shadow-xl">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <div>
+          <h3 className="text-lg font-bold brand-font flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-cyan-400" /> Ask the Lab
+          </h3>
+          <p className="text-[10px] text-gray-500 uppercase tracking-wider">{labChatProvider.label}</p>
+        </div>
+        <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-white transition-colors" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-slate-800 text-xs">
+        <button onClick={() => setShowReadings((v) => !v)} className="flex items-center gap-1 text-gray-400 hover:text-white">
+          {showReadings ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          {snapshot ? `Sharing live readings from ${snapshot.lab}` : 'No lab readings available'}
+        </button>
+        {showReadings && snapshot && (
+          <pre className="mt-2 p-2 bg-black/40 rounded border border-slate-800 text-[10px] text-gray-400 whitespace-pre-wrap font-mono">
+            {describeLabContext(snapshot)}
+          </pre>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-400">Ask about your current experiment. Your settings and results are included automatically.</p>
+            {SUGGESTIONS.map((suggestion) => (
+              <button
+                key={suggestion}
+                onClick={() => send(suggestion)}
+                className="block w-full text-left text-xs px-3 py-2 rounded border border-slate-700 text-cyan-300 hover:border-cyan-500 hover:bg-cyan-900/20 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, i) => (
+          <div
+            key={i}
+            className={`text-sm whitespace-pre-wrap rounded p-3 ${
+              message.role === 'user' ? 'bg-cyan-900/30 border border-cyan-500/30 ml-8' : 'bg-slate-800/60 border border-slate-700 mr-8'
+            }`}
+          >
+            {message.content || (streaming && i === messages.length - 1 ? <span className="text-gray-500 animate-pulse">Thinking...</span> : null)}
+          </div>
+        ))}
+        {error && (
+          <div className="bg-red-900/20 p-2 rounded border border-red-500/40 text-xs text-red-200 flex items-start justify-between gap-2">
+            <p>{error}</p>
+            <button onClick={retry} className="shrink-0 flex items-center gap-1 px-2 py-0.5 border border-red-500/50 rounded-sm hover:bg-red-500/20 uppercase tracking-wider text-[10px]">
+              <RotateCcw className="w-3 h-3" /> Retry
+            </button>
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(input);
+        }}
+        className="p-4 border-t border-slate-800 flex gap-2"
+      >
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send(input);
+            }
+          }}
+          rows={2}
+          placeholder="Why did my satellite crash?"
+          className="flex-1 resize-none bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:outline-none focus:border-cyan-500"
+        />
+        {streaming ? (
+          <button type="button" onClick={() => requestRef.current?.abort()} className="px-3 rounded border border-red-500/50 text-red-300 hover:bg-red-500/20" title="Stop">
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button type="submit" disabled={!input.trim()} className="px-3 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 disabled:opacity-30" title="Send">
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default AskTheLab;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { CelestialBodyData, PlanetEngineeringInfo } from '../types';
+import { getBodyById, getSunDistanceAU } from '../constants';
+import { getPlanetEngineeringData } from '../services/geminiService';
+import { formatAtmosphere, formatGravity, formatTemperature } from '../services/engineeringSchema';
+import { Loader, X, PinOff } from 'lucide-react';
+
+export const MAX_PINNED_BODIES = 4;
+
+// Column accent per pin slot, shared by the panel and the 3D lineup
+const PIN_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#fbbf24'];
+
+// --- In-Canvas: pinned bodies side by side at one common scale ---
+
+// Radius of the largest pinned body in scene units
+const LINEUP_MAX_RADIUS = 8;
+const LINEUP_GAP = 3;
+
+interface ComparisonLineupProps {
+  bodies: CelestialBodyData[];
+}
+
+export const ComparisonLineup: React.FC<ComparisonLineupProps> = ({ bodies }) => {
+  const layout = useMemo(() => {
+    const scale = LINEUP_MAX_RADIUS / Math.max(...bodies.map((body) => body.radiusKm));
+    const radii = bodies.map((body) => body.radiusKm * scale);
+    const width = radii.reduce((sum, r) => sum + r * 2, 0) + LINEUP_GAP * (bodies.length - 1);
+    let x = -width / 2;
+    return radii.map((radius) => {
+      const center = x + radius;
+      x += radius * 2 + LINEUP_GAP;
+      return { radius, position: new THREE.Vector3(center, 0, 0) };
+    });
+  }, [bodies]);
+
+  return (
+    <group>
+      <pointLight position={[0, 30, 60]} intensity={1.5} />
+      {bodies.map((body, i) => {
+        const { radius, position } = layout[i];
+        return (
+          <group key={body.id} position={position}>
+            <mesh>
+              <sphereGeometry args={[radius, 64, 64]} />
+              {body.type === 'star'
+                ? <meshBasicMaterial color={body.color} />
+                : <meshStandardMaterial color={body.color} metalness={0.2} roughness={0.7} />}
+            </mesh>
+            {body.id === 'saturn' && (
+              <mesh rotation={[-Math.PI / 2.5, 0, 0]}>
+                <ringGeometry args={[radius * 1.4, radius * 2.2, 64]} />
+                <meshBasicMaterial color="#A89C83" side={THREE.DoubleSide} transparent opacity={0.6} />
+              </mesh>
+            )}
+            <Html position={[0, -Math.max(radius, 1) - 1.5, 0]} center>
+              <div className="text-xs font-mono whitespace-nowrap bg-black/80 px-1 rounded pointer-events-none select-none text-center" style={{ color: PIN_COLORS[i] }}>
+                {body.name}
+                <div className="text-[10px] text-gray-400">{body.radiusKm.toLocaleString()} km</div>
+              </div>
+            </Html>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+// --- DOM panel: aligned columns with bar charts for the numeric rows ---
+
+interface BarProps {
+  value: number | null;
+  max: number;
+  color: string;
+}
+
+const Bar: React.FC<BarProps> = ({ value, max, color }) => (
+  <div className="h-1.5 bg-gray-800 rounded-sm mt-1 overflow-hidden">
+    {value !== null && max > 0 && (
+      <div className="h-full rounded-sm" style={{ width: `${Math.max(2, (value / max) * 100)}%`, backgroundColor: color }} />
+    )}
+  </div>
+);
+
+interface ComparisonPanelProps {
+  pinnedIds: string[];
+  onUnpin: (id: string) => void;
+  onClose: () => void;
+}
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ pinnedIds, onUnpin, onClose }) => {
+  const [infos, setInfos] = useState<Record<string, PlanetEngineeringInfo>>({});
+
+  const bodies = pinnedIds.map((id) => getBodyById(id)).filter((body): body is CelestialBodyData => !!body);
+
+  // Fetch engineering data for any newly pinned body (the service caches repeat requests)
+  useEffect(() => {
+    let cancelled = false;
+    bodies.forEach((body) => {
+      if (infos[body.id]) return;
+      getPlanetEngineeringData(body.name).then((info) => {
+        if (!cancelled) setInfos((prev) => ({ ...prev, [body.id]: info }));
+      });
+    });
+    return () => { cancelled = true; };
+  }, [pinnedIds.join(',')]);
+
+  const numericRows: { label: string; unit: string; values: (number | null)[]; format: (body: CelestialBodyData) => string }[] = [
+    {
+      label: 'Gravity',
+      unit: 'm/s²',
+      values: bodies.map((body) => body.surfaceGravity),
+      format: (body) => formatGravity({ value: body.surfaceGravity, unit: 'm/s²' }),
+    },
+    {
+      label: 'Temperature',
+      unit: 'K',
+      // Compared in kelvin so the bars stay positive
+      values: bodies.map((body) => infos[body.id]?.meanTemperature.value ?? null),
+      format: (body) => (infos[body.id] ? formatTemperature(infos[body.id].meanTemperature) : '…'),
+    },
+    {
+      label: 'Dist. from Sun',
+      unit: 'AU',
+      values: bodies.map(getSunDistanceAU),
+      format: (body) => `${getSunDistanceAU(body).toFixed(2)} AU`,
+    },
+    {
+      label: 'Moons',
+      unit: '',
+      values: bodies.map((body) => body.moons ?? 0),
+      format: (body) => String(body.moons ?? 0),
+    },
+    {
+      label: 'Radius',
+      unit: 'km',
+      values: bodies.map((body) => body.radiusKm),
+      format: (body) => `${body.radiusKm.toLocaleString()} km`,
+    },
+  ];
+
+  const columns = { gridTemplateColumns: `7rem repeat(${bodies.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="relative bg-black/90 border border-cyan-500/50 backdrop-blur-lg p-4 text-white shadow-[0_0_30px_rgba(0,255,255,0.1)] rounded-sm w-[44rem] max-w-[90vw]">
+      <button onClick={onClose} className="absolute top-2 right-2 text-gray-500 hover:text-white transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+
+      <div className="grid gap-x-3 gap-y-2 text-xs" style={columns}>
+        <span className="text-gray-500 uppercase tracking-wider font-bold self-end">Compare</span>
+        {bodies.map((body, i) => (
+          <div key={body.id} className="flex items-center justify-between border-b-2 pb-1" style={{ borderColor: PIN_COLORS[i] }}>
+            <span className="font-bold brand-font" style={{ color: PIN_COLORS[i] }}>{body.name}</span>
+            <button onClick={() => onUnpin(body.id)} className="text-gray-500 hover:text-white" title="Unpin">
+              <PinOff className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+
+        {numericRows.map((row) => {
+          const max = Math.max(0, ...row.values.map((v) => v ?? 0));
+          return (
+            <React.Fragment key={row.label}>
+              <span className="text-gray-500">{row.label}{row.unit && <span className="text-gray-600"> ({row.unit})</span>}</span>
+              {bodies.map((body, i) => (
+                <div key={body.id}>
+                  <p className="font-mono text-cyan-300 truncate" title={row.format(body)}>{row.format(body)}</p>
+                  <Bar value={row.values[i]} max={max} color={PIN_COLORS[i]} />
+                </div>
+              ))}
+            </React.Fragment>
+          );
+        })}
+
+        <span className="text-gray-500">Atmosphere</span>
+        {bodies.map((body) => (
+          <p key={body.id} className="text-gray-300">{infos[body.id] ? formatAtmosphere(infos[body.id].atmosphere) : <Loader className="w-3 h-3 animate-spin text-cyan-400" />}</p>
+        ))}
+
+        <span className="text-gray-500">Engineering Challenge</span>
+        {bodies.map((body) => (
+          <p key={body.id} className="text-cyan-100 italic">{infos[body.id] ? `"${infos[body.id].engineeringChallenge}"` : ''}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
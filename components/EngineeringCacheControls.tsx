@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { RefreshCw, Download, Upload } from 'lucide-react';
+import { importEngineeringCacheFile } from '../services/geminiService';
+import { exportEngineeringCache } from '../services/engineeringCache';
+import { downloadJson } from '../services/download';
+
+interface EngineeringCacheControlsProps {
+  fetchedAt: number | null; // null when the panel shows offline fallback data
+  loading: boolean;
+  onRefresh: () => void;
+  onImported: () => void;
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+// Footer of the body info panel: data age, manual refresh, and cache export/import for offline labs
+const EngineeringCacheControls: React.FC<EngineeringCacheControlsProps> = ({ fetchedAt, loading, onRefresh, onImported }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex items-center gap-1 hover:text-cyan-300 transition-colors disabled:opacity-40';
+
+  const handleExport = async () => {
+    try {
+      const data = await exportEngineeringCache();
+      downloadJson(`engineering-cache-${data.exportedAt.slice(0, 10)}.json`, data);
+      setStatus(`Exported ${data.entries.length} entries`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const stored = await importEngineeringCacheFile(file);
+      setStatus(`Imported ${stored} entries`);
+      onImported();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="pt-2 border-t border-gray-700 text-[10px] text-gray-500 uppercase tracking-wider space-y-1">
+      <div className="flex items-center justify-between">
+        <span>{fetchedAt === null ? 'Offline reference data' : `Fetched ${formatAge(Date.now() - fetchedAt)}`}</span>
+        <button onClick={onRefresh} disabled={loading} className={buttonClass} title="Ask the provider again, ignoring the cache">
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={handleExport} className={buttonClass} title="Save every cached answer as a JSON file">
+          <Download className="w-3 h-3" /> Export cache
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass} title="Pre-seed the cache from an exported JSON file">
+          <Upload className="w-3 h-3" /> Import cache
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+      {status && <p className="normal-case tracking-normal text-gray-400">{status}</p>}
+    </div>
+  );
+};
+
+export default EngineeringCacheControls;
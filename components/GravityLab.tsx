@@ -4,24 +4,21 @@ import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Text, Html } from '@react-three/drei';
 import { ArrowLeft, Play, RotateCcw, ArrowDown } from 'lucide-react';
 import * as THREE from 'three';
+import { useUrlState, oneOf } from '../services/router';
+import { BODY_CATALOG, getBodyById } from '../constants';
+import { useLabContext } from '../services/labContext';
+import { ExperimentRecord } from '../services/labReport';
+import ReportBuilder from './ReportBuilder';
+import Measure from './Measure';
+import { formatQuantityText, useUnitPreferences } from '../services/units';
 
 interface GravityLabProps {
   onExit: () => void;
 }
 
-interface PlanetGravity {
-  id: string;
-  name: string;
-  g: number; // m/s^2
-  color: string;
-}
-
-const PLANETS: PlanetGravity[] = [
-  { id: 'earth', name: 'Earth', g: 9.81, color: '#22A6B3' },
-  { id: 'moon', name: 'Moon', g: 1.62, color: '#A5A5A5' },
-  { id: 'mars', name: 'Mars', g: 3.72, color: '#EB4D4B' },
-  { id: 'jupiter', name: 'Jupiter', g: 24.79, color: '#D35400' },
-];
+// Every catalog body except the Sun; giant planets use their 1 bar level as the "surface"
+const PLANETS = BODY_CATALOG.filter((body) => body.type !== 'star');
+const EARTH = getBodyById('earth')!;
 
 const DROP_HEIGHT = 10; // meters
 
@@ -132,7 +129,8 @@ const FallingObject: React.FC<FallingObjectProps> = ({ isActive, g, color, isGho
 // --- Main Component ---
 
 const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
-  const [selectedPlanet, setSelectedPlanet] = useState<PlanetGravity>(PLANETS[0]);
+  const [planetId, setPlanetId] = useUrlState('planet', EARTH.id, { parse: oneOf(PLANETS.map((p) => p.id)) });
+  const selectedPlanet = PLANETS.find((p) => p.id === planetId) ?? EARTH;
   const [isDropping, setIsDropping] = useState(false);
   const [resetCount, setResetCount] = useState(0);
   
@@ -140,6 +138,54 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
   const [fallTime, setFallTime] = useState<number | null>(null);
   const [impactVelocity, setImpactVelocity] = useState<number | null>(null);
 
+  useLabContext('Gravity Lab', {
+    'Planet': selectedPlanet.name,
+    'Surface gravity (m/s²)': selectedPlanet.surfaceGravity,
+    'Drop height (m)': DROP_HEIGHT,
+    'Drop in progress': isDropping && fallTime === null,
+    'Measured fall time (s)': fallTime,
+    'Impact velocity (m/s)': impactVelocity,
+  });
+
+  const predictedTime = Math.sqrt((2 * DROP_HEIGHT) / selectedPlanet.surfaceGravity);
+  const earthTime = Math.sqrt((2 * DROP_HEIGHT) / EARTH.surfaceGravity);
+  const units = useUnitPreferences();
+
+  const experiment: ExperimentRecord | null = fallTime === null || impactVelocity === null ? null : {
+    lab: 'Gravity Lab',
+    title: `${DROP_HEIGHT} m drop on ${selectedPlanet.name}`,
+    prediction: `Dropped from rest, the mass should take t = √(2d/g) = ${predictedTime.toFixed(2)} s to fall ${DROP_HEIGHT} m `
+      + `on ${selectedPlanet.name} (g = ${selectedPlanet.surfaceGravity} m/s²) and hit at v = gt = ${(selectedPlanet.surfaceGravity * predictedTime).toFixed(2)} m/s.`,
+    procedure: [
+      `Selected ${selectedPlanet.name} in the vacuum chamber.`,
+      `Released the test mass from rest at ${DROP_HEIGHT} m.`,
+      'Timed the fall until the mass touched the floor and computed the impact velocity from v = gt.',
+    ],
+    inputs: {
+      'Planet': selectedPlanet.name,
+      'Surface gravity (m/s²)': selectedPlanet.surfaceGravity,
+      'Drop height (m)': DROP_HEIGHT,
+    },
+    results: {
+      'Measured fall time (s)': fallTime,
+      'Impact velocity (m/s)': impactVelocity,
+      'Predicted fall time (s)': predictedTime,
+      'Fall time on Earth (s)': earthTime,
+    },
+    findings: [
+      `The measured fall time was ${fallTime.toFixed(2)} s against ${predictedTime.toFixed(2)} s predicted `
+        + `(${(((fallTime - predictedTime) / predictedTime) * 100).toFixed(1)}% difference).`,
+      ...(selectedPlanet.id !== 'earth'
+        ? [`On Earth the same drop takes ${earthTime.toFixed(2)} s: fall time scales with 1/√g.`]
+        : []),
+    ],
+    limitations: [
+      'The fall is timed in animation frames, so the measured time can be off by up to one frame (about 1/60 s).',
+      'The drop stops when the bottom of the 1 m sphere touches the floor, so its centre falls 0.5 m less than the drop height.',
+      'The chamber is a vacuum and gravity is constant over the drop, unlike a real drop through air.',
+    ],
+  };
+
   const startDrop = () => {
     setFallTime(null);
     setImpactVelocity(null);
@@ -157,7 +203,7 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
   const handleImpact = (time: number) => {
     setFallTime(time);
     // v = g * t
-    setImpactVelocity(selectedPlanet.g * time);
+    setImpactVelocity(selectedPlanet.surfaceGravity * time);
   };
 
   return (
@@ -176,9 +222,9 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
 
         <div className="absolute top-8 right-8 z-10 bg-black/60 p-4 rounded backdrop-blur text-right border border-gray-700">
            <h3 className="text-xl font-bold text-white mb-1">Vacuum Chamber</h3>
-           <p className="text-gray-400 text-xs">Height: {DROP_HEIGHT} meters</p>
+           <p className="text-gray-400 text-xs">Height: {formatQuantityText(DROP_HEIGHT, 'length', units)}</p>
            <div className="mt-2 text-2xl font-mono text-cyan-400 font-bold">
-              g = {selectedPlanet.g} m/s²
+              g = <Measure value={selectedPlanet.surfaceGravity} dimension="acceleration" unitClassName="text-base" />
            </div>
         </div>
 
@@ -192,7 +238,7 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
           {/* Main Object */}
           <FallingObject 
             isActive={isDropping} 
-            g={selectedPlanet.g} 
+            g={selectedPlanet.surfaceGravity} 
             color={selectedPlanet.color}
             onHit={handleImpact}
             resetSignal={resetCount}
@@ -202,8 +248,8 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
           {selectedPlanet.id !== 'earth' && (
             <FallingObject 
               isActive={isDropping} 
-              g={9.81} 
-              color="#22A6B3" 
+              g={EARTH.surfaceGravity} 
+              color={EARTH.color} 
               isGhost={true}
               resetSignal={resetCount}
             />
@@ -224,15 +270,15 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
         </div>
 
         {/* Planet Selector */}
-        <div className="grid grid-cols-2 gap-2">
+        <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto custom-scrollbar pr-1">
           {PLANETS.map(p => (
             <button
               key={p.id}
               onClick={() => {
-                setSelectedPlanet(p);
+                setPlanetId(p.id);
                 reset();
               }}
-              className={`p-3 rounded border text-sm font-bold transition-all ${
+              className={`p-2 rounded border text-sm font-bold transition-all ${
                 selectedPlanet.id === p.id 
                 ? 'bg-cyan-900/50 border-cyan-500 text-white' 
                 : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'
@@ -275,24 +321,26 @@ const GravityLab: React.FC<GravityLabProps> = ({ onExit }) => {
             <div className="bg-slate-800/50 p-3 rounded">
               <p className="text-gray-400 text-xs">Fall Time (t)</p>
               <p className="text-2xl font-mono text-white">
-                {fallTime !== null ? fallTime.toFixed(2) : '--'} <span className="text-sm text-gray-500">s</span>
+                {fallTime !== null ? <Measure value={fallTime} dimension="time" /> : '--'}
               </p>
             </div>
             
             <div className="bg-slate-800/50 p-3 rounded">
               <p className="text-gray-400 text-xs">Impact Velocity (v)</p>
               <p className="text-2xl font-mono text-white">
-                {impactVelocity !== null ? impactVelocity.toFixed(2) : '--'} <span className="text-sm text-gray-500">m/s</span>
+                {impactVelocity !== null ? <Measure value={impactVelocity} dimension="velocity" /> : '--'}
               </p>
             </div>
           </div>
 
           {selectedPlanet.id !== 'earth' && fallTime !== null && (
              <div className="text-xs text-gray-400 mt-2 pt-2 border-t border-gray-700">
-               Comparison: On Earth, this would take <span className="text-white font-bold">{(Math.sqrt(2 * DROP_HEIGHT / 9.81)).toFixed(2)}s</span>.
+               Comparison: On Earth, this would take <span className="text-white font-bold">{formatQuantityText(earthTime, 'time', units)}</span>.
              </div>
           )}
         </div>
+
+        <ReportBuilder experiment={experiment} />
       </div>
     </div>
   );
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { Globe } from 'lucide-react';
+import { RocketStage, ThrottleProfile } from '../types';
+import { getBodyById } from '../constants';
+import { AscentOutcome, simulateAscent } from '../services/ascentSimulation';
+import { assessLaunch, summarizeStack, toAscentVehicle } from '../services/rocketDesign';
+import { toThrottleSchedule } from '../services/throttleProfile';
+import Measure from './Measure';
+
+interface LaunchComparisonProps {
+  stack: RocketStage[];
+  profile: ThrottleProfile;
+  padId: string; // Highlighted column
+}
+
+const COMPARISON_SITES = ['earth', 'moon', 'mars'].map((id) => getBodyById(id)!);
+
+const SHORT_OUTCOME: Record<AscentOutcome, string> = {
+  grounded: 'Stays on the pad',
+  landed: 'Falls back',
+  apogee: 'Falls back',
+  escape: 'Escapes',
+  timeout: 'Still climbing',
+};
+
+// The same rocket on Earth, the Moon and Mars
+const LaunchComparison: React.FC<LaunchComparisonProps> = ({ stack, profile, padId }) => {
+  const sites = useMemo(() => {
+    const deltaV = summarizeStack(stack).reduce((sum, s) => sum + s.deltaV, 0);
+    return COMPARISON_SITES.map((body) => {
+      const launch = assessLaunch(stack, body);
+      return { body, launch, margin: deltaV - launch.deltaVToOrbit, ascent: simulateAscent(toAscentVehicle(stack, toThrottleSchedule(profile)), body) };
+    });
+  }, [stack, profile]);
+
+  const rows: { label: string; render: (site: (typeof sites)[number]) => React.ReactNode }[] = [
+    { label: 'Gravity', render: ({ launch }) => <Measure value={launch.gravity} dimension="acceleration" unitClassName="text-gray-500" /> },
+    {
+      label: 'Liftoff T/W',
+      render: ({ launch }) => <span className={launch.liftoff ? 'text-green-400' : 'text-red-400'}>{launch.thrustToWeight[0].toFixed(2)}</span>,
+    },
+    {
+      label: 'Hover throttle',
+      render: ({ launch }) => (launch.hoverThrottle <= 1 ? `${(launch.hoverThrottle * 100).toFixed(0)}%` : <span className="text-red-400">can't hover</span>),
+    },
+    { label: 'Δv to orbit', render: ({ launch }) => <Measure value={launch.deltaVToOrbit} dimension="velocity" unitClassName="text-gray-500" /> },
+    {
+      label: 'Δv margin',
+      render: ({ margin }) => (
+        <span className={margin >= 0 ? 'text-green-400' : 'text-red-400'}>
+          {margin >= 0 ? '+' : ''}<Measure value={margin} dimension="velocity" unitClassName="text-gray-500" />
+        </span>
+      ),
+    },
+    {
+      label: 'Straight up',
+      render: ({ ascent }) => (ascent.outcome === 'apogee'
+        ? <Measure value={ascent.apogee.altitude} dimension="length" unitClassName="text-gray-500" />
+        : SHORT_OUTCOME[ascent.outcome]),
+    },
+  ];
+
+  return (
+    <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-3">
+      <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+        <Globe className="w-3 h-3" /> Same Rocket, Other Worlds
+      </h3>
+      <div className="grid grid-cols-[6rem_repeat(3,minmax(0,1fr))] gap-x-2 gap-y-1 text-xs font-mono">
+        <span />
+        {sites.map(({ body }) => (
+          <span key={body.id} className={`font-bold text-right ${body.id === padId ? 'text-cyan-300' : 'text-white'}`}>{body.name}</span>
+        ))}
+        {rows.map((row) => (
+          <React.Fragment key={row.label}>
+            <span className="text-gray-500 font-sans">{row.label}</span>
+            {sites.map((site) => (
+              <span key={site.body.id} className="text-white text-right truncate">{row.render(site)}</span>
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Δv to orbit is the loss-free minimum to a low circular orbit; "Straight up" is the simulated vertical flight.
+      </p>
+    </div>
+  );
+};
+
+export default LaunchComparison;
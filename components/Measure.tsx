@@ -0,0 +1,20 @@
+import React from 'react';
+import { Dimension, formatQuantity, useUnitPreferences } from '../services/units';
+
+interface MeasureProps {
+  value: number; // SI
+  dimension: Dimension;
+  unitClassName?: string;
+}
+
+// A number with its unit, in the student's chosen unit system and precision
+const Measure: React.FC<MeasureProps> = ({ value, dimension, unitClassName = 'text-sm text-gray-500' }) => {
+  const { value: text, unit } = formatQuantity(value, dimension, useUnitPreferences());
+  return (
+    <>
+      {text} <span className={unitClassName}>{unit}</span>
+    </>
+  );
+};
+
+export default Measure;
@@ -4,6 +4,13 @@ import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Stars, Html, Line } from '@react-three/drei';
 import { ArrowLeft, RotateCcw, Play, Globe, Info, AlertTriangle, Rocket, Target } from 'lucide-react';
 import * as THREE from 'three';
+import { useUrlState, numberInRange } from '../services/router';
+import { useLabContext } from '../services/labContext';
+import { BODY_CATALOG, getBodyById, getSunDistanceAU } from '../constants';
+import { ExperimentRecord } from '../services/labReport';
+import ReportBuilder from './ReportBuilder';
+import Measure from './Measure';
+import { AU_METERS } from '../services/units';
 
 interface OrbitalLabProps {
   onExit: () => void;
@@ -13,6 +20,21 @@ interface OrbitalLabProps {
 const PLANET_RADIUS = 2;
 const GM = 20; // Gravitational Parameter (G * M)
 const INITIAL_RADIUS = 4; // Starting distance from center
+const ESCAPE_RADIUS = 60; // Beyond this the run counts as an escape
+
+// The launch radius stands for Earth's orbit, which sets the scale for converting distances to AU
+const EARTH = getBodyById('earth')!;
+const SIM_UNITS_PER_AU = INITIAL_RADIUS / getSunDistanceAU(EARTH);
+
+// Planets and dwarf planets from the Sun outwards, for naming how far a trajectory reaches
+const DESTINATIONS = BODY_CATALOG.filter((body) => body.elements)
+  .sort((a, b) => getSunDistanceAU(a) - getSunDistanceAU(b));
+
+const getDestination = (maxAU: number) => {
+  const reached = DESTINATIONS.filter((body) => getSunDistanceAU(body) <= maxAU).pop();
+  if (!reached || getSunDistanceAU(reached) <= getSunDistanceAU(EARTH)) return `Near ${EARTH.name}'s Orbit`;
+  return `Reaching ${reached.name}`;
+};
 
 // --- 3D Components ---
 
@@ -29,7 +51,7 @@ const CentralPlanet = () => {
         <meshBasicMaterial color="#60a5fa" transparent opacity={0.15} side={THREE.BackSide} />
       </mesh>
       <Html position={[0, 2.5, 0]} center>
-         <div className="text-[10px] text-cyan-300 font-mono bg-black/50 px-1 rounded">Earth (Start)</div>
+         <div className="text-[10px] text-cyan-300 font-mono bg-black/50 px-1 rounded">{EARTH.name} (Start)</div>
       </Html>
     </group>
   );
@@ -124,7 +146,7 @@ const SimulationScene = ({
       }
 
       // Escape Detection (arbitrary large distance)
-      if (r > 60) {
+      if (r > ESCAPE_RADIUS) {
         onEscape();
       }
 
@@ -167,14 +189,14 @@ const SimulationScene = ({
 
 const OrbitalLab: React.FC<OrbitalLabProps> = ({ onExit }) => {
   const [running, setRunning] = useState(false);
-  const [speed, setSpeed] = useState(2.2); // Approx circular orbit speed for r=4, mu=20
-  const [angle, setAngle] = useState(0); // Degrees offset from tangent
+  const [speed, setSpeed] = useUrlState('speed', 2.2, { parse: numberInRange(1, 3.5) }); // Approx circular orbit speed for r=4, mu=20
+  const [angle, setAngle] = useUrlState('angle', 0, { parse: numberInRange(-45, 45) }); // Degrees offset from tangent
   const [resetCount, setResetCount] = useState(0);
   const [status, setStatus] = useState<'IDLE' | 'ORBITING' | 'CRASH' | 'ESCAPE'>('IDLE');
 
   // --- Trajectory Calculation Logic ---
   const trajectoryStats = useMemo(() => {
-    // Physics mapping: Sim Radius 4 = 1 AU (Earth)
+    // Physics mapping: the launch radius is Earth's orbit (SIM_UNITS_PER_AU)
     const r0 = INITIAL_RADIUS;
     const v0 = speed;
     const rads = (angle * Math.PI) / 180;
@@ -204,17 +226,8 @@ const OrbitalLab: React.FC<OrbitalLabProps> = ({ onExit }) => {
       // Aphelion distance (max distance from focus)
       rMax = a * (1 + e);
       
-      // Convert Sim Units to AU. (4 sim units = 1 AU)
-      maxAU = rMax / 4;
-
-      if (maxAU < 1.1) targetText = "Low Earth Orbit";
-      else if (maxAU < 1.4) targetText = "High Earth Orbit";
-      else if (maxAU < 1.8) targetText = "Reaching Mars";
-      else if (maxAU < 3.0) targetText = "Asteroid Belt";
-      else if (maxAU < 6.0) targetText = "Reaching Jupiter";
-      else if (maxAU < 12.0) targetText = "Reaching Saturn";
-      else if (maxAU < 25.0) targetText = "Reaching Uranus";
-      else targetText = "Reaching Neptune/Pluto";
+      maxAU = rMax / SIM_UNITS_PER_AU;
+      targetText = getDestination(maxAU);
       
       // Check for immediate crash trajectory (Perigee < Planet Radius)
       const rMin = a * (1 - e);
@@ -228,6 +241,60 @@ const OrbitalLab: React.FC<OrbitalLabProps> = ({ onExit }) => {
   }, [speed, angle]);
 
 
+  const circularSpeed = Math.sqrt(GM / INITIAL_RADIUS);
+  const escapeSpeed = Math.sqrt((2 * GM) / INITIAL_RADIUS);
+  const aphelion = Number.isFinite(trajectoryStats.maxAU) ? trajectoryStats.maxAU : 'unbound (escape trajectory)';
+  const outcome = { IDLE: 'not launched yet', ORBITING: 'running', CRASH: 'crashed into the planet', ESCAPE: 'escaped the gravity well' }[status];
+
+  useLabContext('Orbital Lab', {
+    'Injection speed (sim units)': speed,
+    'Launch angle from the tangent (deg)': angle,
+    'Circular orbit speed at launch radius (sim units)': circularSpeed,
+    'Escape speed at launch radius (sim units)': escapeSpeed,
+    'Launch radius / planet radius (sim units)': `${INITIAL_RADIUS} / ${PLANET_RADIUS}`,
+    'Specific orbital energy': trajectoryStats.energy,
+    'Predicted aphelion (AU)': aphelion,
+    'Predicted destination': trajectoryStats.targetText,
+    'Run status': outcome,
+  });
+
+  const experiment: ExperimentRecord | null = status === 'IDLE' ? null : {
+    lab: 'Orbital Lab',
+    title: `Injection at ${speed.toFixed(2)} units/s, ${angle}° from the tangent`,
+    prediction: trajectoryStats.energy >= 0
+      ? `With a specific orbital energy of ${trajectoryStats.energy.toFixed(2)} (≥ 0), the satellite should escape the planet's gravity.`
+      : `With a specific orbital energy of ${trajectoryStats.energy.toFixed(2)} (< 0), the satellite should stay bound, `
+        + `reaching about ${trajectoryStats.maxAU.toFixed(2)} AU (${trajectoryStats.targetText}).`,
+    procedure: [
+      `Placed the satellite ${INITIAL_RADIUS} simulation units (${(INITIAL_RADIUS / SIM_UNITS_PER_AU).toFixed(2)} AU) from the centre of a planet of radius ${PLANET_RADIUS}.`,
+      'Set the injection speed and the angle from the local horizontal (positive is away from the planet).',
+      'Launched and watched the trajectory until it crashed, escaped or kept orbiting.',
+    ],
+    inputs: {
+      'Injection speed (sim units)': speed,
+      'Launch angle from the tangent (deg)': angle,
+      'Gravitational parameter GM (sim units)': GM,
+      'Circular orbit speed at launch radius (sim units)': circularSpeed,
+      'Escape speed at launch radius (sim units)': escapeSpeed,
+    },
+    results: {
+      'Outcome': outcome,
+      'Specific orbital energy': trajectoryStats.energy,
+      'Predicted aphelion (AU)': aphelion,
+      'Predicted destination': trajectoryStats.targetText,
+    },
+    findings: [
+      `The injection speed was ${((speed / circularSpeed) * 100).toFixed(0)}% of circular speed `
+        + `and ${((speed / escapeSpeed) * 100).toFixed(0)}% of escape speed; the run ended as: ${outcome}.`,
+    ],
+    limitations: [
+      'The trajectory is integrated in small fixed steps per animation frame, so long runs accumulate numerical error.',
+      'Only the central planet pulls on the satellite; the Sun and other planets are ignored.',
+      `Anything beyond ${ESCAPE_RADIUS} units (${(ESCAPE_RADIUS / SIM_UNITS_PER_AU).toFixed(0)} AU) counts as escaped, even if it is still bound.`,
+      'Speeds and GM are simulation units chosen to make orbits visible, not real values.',
+    ],
+  };
+
   const handlePlay = () => {
     if (running) return;
     setRunning(true);
@@ -348,7 +415,7 @@ const OrbitalLab: React.FC<OrbitalLabProps> = ({ onExit }) => {
                 <div>
                   <p className="text-gray-500 text-[10px] uppercase">Projected Aphelion</p>
                   <p className="text-white font-mono text-lg">
-                    {trajectoryStats.maxAU === Infinity ? '∞' : trajectoryStats.maxAU.toFixed(2)} <span className="text-sm text-gray-500">AU</span>
+                    {trajectoryStats.maxAU === Infinity ? '∞' : <Measure value={trajectoryStats.maxAU * AU_METERS} dimension="length" />}
                   </p>
                 </div>
                 <div>
@@ -376,6 +443,8 @@ const OrbitalLab: React.FC<OrbitalLabProps> = ({ onExit }) => {
                <RotateCcw className="w-4 h-4" />
              </button>
            </div>
+
+           <ReportBuilder experiment={experiment} />
         </div>
       </div>
     </div>
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, X, RotateCcw, Download, Printer, Loader2 } from 'lucide-react';
+import { ExperimentRecord, LabReport, reportFilename, reportToHtml, reportToMarkdown } from '../services/labReport';
+import { generateLabReport } from '../services/geminiService';
+import { downloadFile, printDocument } from '../services/download';
+import { isAbortError } from '../services/requestControl';
+
+interface ReportBuilderProps {
+  experiment: ExperimentRecord | null; // null until there is something to report
+}
+
+const Section: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-cyan-500 text-xs font-bold uppercase mb-1">{label}</p>
+    {children}
+  </div>
+);
+
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm text-white focus:outline-none focus:border-cyan-500';
+
+// "Generate Report" button plus an editor for the write-up, which snapshots the experiment when opened
+const ReportBuilder: React.FC<ReportBuilderProps> = ({ experiment }) => {
+  const [snapshot, setSnapshot] = useState<ExperimentRecord | null>(null);
+  const [report, setReport] = useState<LabReport | null>(null);
+  const [source, setSource] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const generate = async (record: ExperimentRecord) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await generateLabReport(record, controller.signal);
+      setReport(result.report);
+      setSource(result.source);
+      setError(result.error ?? null);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const open = () => {
+    if (!experiment) return;
+    setSnapshot(experiment);
+    setReport(null);
+    generate(experiment);
+  };
+
+  const close = () => {
+    requestRef.current?.abort();
+    setSnapshot(null);
+    setReport(null);
+    setLoading(false);
+  };
+
+  const update = (changes: Partial<LabReport>) => setReport((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const exportPdf = () => {
+    if (!report) return;
+    try {
+      printDocument(reportToHtml(report));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={open}
+        disabled={!experiment}
+        title={experiment ? 'Write up this experiment' : 'Run the experiment first'}
+        className="w-full py-2 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+      >
+        <FileText className="w-4 h-4" /> Generate Report
+      </button>
+
+      {snapshot && (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+          <div className="bg-slate-950 border border-cyan-500/30 rounded-lg w-full max-w-3xl max-h-full flex flex-col text-white shadow-xl">
+            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+              <div>
+                <h3 className="text-lg font-bold brand-font flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-cyan-400" /> Lab Report
+                </h3>
+                <p className="text-[10px] text-gray-500 uppercase tracking-wider">
+                  {loading ? 'Writing...' : `Written by ${source}. Edit anything before exporting.`}
+                </p>
+              </div>
+              <button onClick={close} className="text-gray-500 hover:text-white transition-colors" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+              {error && (
+                <div className="bg-amber-900/20 p-2 rounded border border-amber-500/40 text-xs text-amber-200">
+                  {report ? `The AI provider could not write this report (${error}), so it was filled in from the offline template.` : error}
+                </div>
+              )}
+
+              {loading && !report && (
+                <div className="flex items-center gap-2 text-gray-400 text-sm py-12 justify-center">
+                  <Loader2 className="w-4 h-4 animate-spin" /> Writing up "{snapshot.title}"...
+                </div>
+              )}
+
+              {report && (
+                <>
+                  <input value={report.title} onChange={(e) => update({ title: e.target.value })} className={`${inputClass} text-lg font-bold`} />
+                  <p className="text-xs text-gray-500">{report.lab} · {report.date}</p>
+
+                  <Section label="Hypothesis">
+                    <textarea value={report.hypothesis} onChange={(e) => update({ hypothesis: e.target.value })} rows={3} className={inputClass} />
+                  </Section>
+
+                  <Section label="Method">
+                    <textarea value={report.method} onChange={(e) => update({ method: e.target.value })} rows={4} className={inputClass} />
+                  </Section>
+
+                  <Section label="Results">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {report.results.map((row, i) => (
+                          <tr key={i} className="border-b border-slate-800">
+                            <td className="py-1 pr-2 text-gray-400">{row.quantity}</td>
+                            <td className="py-1">
+                              <input
+                                value={row.value}
+                                onChange={(e) => update({ results: report.results.map((r, j) => (j === i ? { ...r, value: e.target.value } : r)) })}
+                                className="w-full bg-transparent font-mono text-white focus:outline-none focus:bg-slate-900 px-1 rounded"
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </Section>
+
+                  <Section label="Discussion">
+                    <textarea value={report.discussion} onChange={(e) => update({ discussion: e.target.value })} rows={6} className={inputClass} />
+                  </Section>
+
+                  <Section label="Sources of error (one per line)">
+                    <textarea
+                      value={report.sourcesOfError.join('\n')}
+                      onChange={(e) => update({ sourcesOfError: e.target.value.split('\n') })}
+                      rows={4}
+                      className={inputClass}
+                    />
+                  </Section>
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-2 p-4 border-t border-slate-800">
+              <button
+                onClick={() => generate(snapshot)}
+                disabled={loading}
+                className="flex items-center gap-2 px-3 py-2 rounded border border-slate-700 text-gray-300 hover:bg-slate-800 text-sm disabled:opacity-30"
+              >
+                <RotateCcw className="w-4 h-4" /> Regenerate
+              </button>
+              <div className="flex-1" />
+              <button
+                onClick={() => report && downloadFile(reportFilename(report, 'md'), reportToMarkdown(report), 'text/markdown')}
+                disabled={!report}
+                className="flex items-center gap-2 px-3 py-2 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 text-sm disabled:opacity-30"
+              >
+                <Download className="w-4 h-4" /> Markdown
+              </button>
+              <button
+                onClick={exportPdf}
+                disabled={!report}
+                title="Opens the print dialog: choose Save as PDF"
+                className="flex items-center gap-2 px-3 py-2 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 text-sm disabled:opacity-30"
+              >
+                <Printer className="w-4 h-4" /> PDF
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReportBuilder;
@@ -1,27 +1,111 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Stars, Cylinder, Cone } from '@react-three/drei';
-import { ArrowLeft, Flame, Gauge, Activity, Rocket, Timer, Map, Database } from 'lucide-react';
+import { ArrowLeft, Activity, Rocket, Timer, Map, Play, RotateCcw, TrendingUp, Layers, Globe } from 'lucide-react';
 import * as THREE from 'three';
+import { useUrlState, oneOf } from '../services/router';
+import { useLabContext } from '../services/labContext';
+import { ExperimentRecord } from '../services/labReport';
+import { getBodyById } from '../constants';
+import { CelestialBodyData, RocketStage } from '../types';
+import { AscentOutcome, AscentResult, AscentSample, airDensity, sampleAt, simulateAscent } from '../services/ascentSimulation';
+import {
+  DEFAULT_STACK,
+  DRAG_COEFFICIENT,
+  G0,
+  LAUNCH_SITES,
+  REFERENCE_AREA,
+  assessLaunch,
+  decodeStack,
+  encodeStack,
+  enginePropellant,
+  stageDryMass,
+  stageEngine,
+  summarizeStack,
+  thrustAt,
+  toAscentVehicle,
+  unstagedDeltaV,
+} from '../services/rocketDesign';
+import { FULL_THROTTLE, PROFILE_LIMITS, decodeProfile, describeProfile, encodeProfile, toThrottleSchedule } from '../services/throttleProfile';
+import ReportBuilder from './ReportBuilder';
+import StageEditor from './StageEditor';
+import ThrottleProfileEditor from './ThrottleProfileEditor';
+import TelemetryCharts from './TelemetryCharts';
+import LaunchComparison from './LaunchComparison';
+import Measure from './Measure';
 
 interface RocketLabProps {
   onExit: () => void;
 }
 
+const PLAYBACK_SPEEDS = [1, 10, 50];
+const HUD_INTERVAL = 0.1; // s of real time between HUD updates
+
+const OUTCOME_TEXT: Record<AscentOutcome, string> = {
+  grounded: 'Thrust was below weight at ignition: the hold-down clamps kept the rocket on the pad',
+  landed: 'Lifted off, then came back down to the ground',
+  apogee: 'Climbed to apogee, then began to fall back',
+  escape: 'Reached escape speed: the rocket will never fall back',
+  timeout: 'Still climbing when the simulation stopped after an hour',
+};
+
+// Night-time air at the pad fading to black space as the air thins
+const AIR_COLOR = new THREE.Color('#1e3a5f');
+const SPACE_COLOR = new THREE.Color('#020617');
+
+const skyColor = (target: THREE.Color, body: CelestialBodyData, altitude: number) => {
+  const air = body.atmosphere ? airDensity(body, altitude) / body.atmosphere.surfaceDensity : 0;
+  return target.copy(SPACE_COLOR).lerp(AIR_COLOR, air);
+};
+
 // --- 3D Components ---
 
-const RocketEngine = ({ flowRate }: { flowRate: number }) => {
+const NOZZLE_LENGTH = 0.8;
+const ROCKET_BASE = 1; // Height of the bottom tank above the scene origin
+const STAGE_COLORS = ['#e2e8f0', '#cbd5e1'];
+
+// Tanks grow with the propellant they hold, so a big booster looks big
+const stageHeight = (stage: RocketStage) => 1 + Math.sqrt(stage.propellantMass / 2000);
+
+// Bottom of each stage's tank, stacked with room for the nozzles of the stage above
+const stageBases = (stack: RocketStage[]) => {
+  let y = ROCKET_BASE;
+  return stack.map((stage) => {
+    const base = y;
+    y += stageHeight(stage) + NOZZLE_LENGTH;
+    return base;
+  });
+};
+
+// One engine in a ring around the tank bottom, or a single one in the middle
+const nozzleLayout = (count: number) => {
+  const radius = count === 1 ? 0.4 : Math.max(0.1, 0.35 / Math.sqrt(count));
+  const ring = count === 1 ? 0 : 0.3;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (i / count) * Math.PI * 2;
+    return { x: Math.cos(angle) * ring, z: Math.sin(angle) * ring, radius };
+  });
+};
+
+interface EngineFlameProps {
+  flowRate: number;
+  throttle: React.MutableRefObject<number>; // Share of full thrust, updated every frame during playback
+  radius: number;
+  color: string;
+}
+
+const EngineFlame = ({ flowRate, throttle, radius, color }: EngineFlameProps) => {
   const flameRef = useRef<THREE.Mesh>(null);
 
-  useFrame((state) => {
+  useFrame(() => {
     if (flameRef.current) {
       // Jitter the flame for realism
       const jitter = Math.random() * 0.1;
-      const scaleY = (flowRate / 20) + jitter; // Scale flame based on flow rate
+      const scaleY = throttle.current * (1 + Math.log10(1 + flowRate)) + jitter; // Scale flame based on flow rate and throttle
       flameRef.current.scale.set(1 + jitter * 0.5, Math.max(0.1, scaleY), 1 + jitter * 0.5);
-      flameRef.current.position.y = -1.5 - (scaleY / 2); // Keep attached to nozzle
-      
+      flameRef.current.position.y = -NOZZLE_LENGTH - (scaleY / 2); // Keep attached to nozzle
+
       // Flicker opacity
       const mat = flameRef.current.material as THREE.MeshBasicMaterial;
       mat.opacity = 0.6 + Math.random() * 0.4;
@@ -29,95 +113,341 @@ const RocketEngine = ({ flowRate }: { flowRate: number }) => {
   });
 
   return (
-    <group position={[0, 1, 0]}>
-      {/* Rocket Body */}
-      <Cylinder args={[0.5, 0.5, 3, 32]} position={[0, 1.5, 0]}>
-        <meshStandardMaterial color="#e2e8f0" metalness={0.6} roughness={0.2} />
+    <mesh ref={flameRef}>
+      <coneGeometry args={[radius * 0.75, 1, 16, 1, true]} />
+      <meshBasicMaterial
+        color={color}
+        transparent
+        opacity={0.8}
+        side={THREE.DoubleSide}
+        blending={THREE.AdditiveBlending}
+      />
+    </mesh>
+  );
+};
+
+interface StageModelProps {
+  stage: RocketStage;
+  index: number;
+  isTop: boolean;
+  firing: boolean;
+  throttle: React.MutableRefObject<number>;
+}
+
+// A tank with its engines below, fins on the first stage and the nose cone on the top one
+const StageModel = React.forwardRef<THREE.Group, StageModelProps>(({ stage, index, isTop, firing, throttle }, ref) => {
+  const height = stageHeight(stage);
+  const engine = stageEngine(stage);
+
+  return (
+    <group ref={ref}>
+      <Cylinder args={[0.5, 0.5, height, 32]} position={[0, height / 2, 0]}>
+        <meshStandardMaterial color={STAGE_COLORS[index % STAGE_COLORS.length]} metalness={0.6} roughness={0.2} />
       </Cylinder>
-      
-      {/* Nose Cone */}
-      <Cone args={[0.5, 1, 32]} position={[0, 3.5, 0]}>
-        <meshStandardMaterial color="#ef4444" />
-      </Cone>
-
-      {/* Fins */}
-      {[0, 1, 2, 3].map((i) => (
+
+      {/* Interstage band */}
+      <Cylinder args={[0.51, 0.51, 0.1, 32]} position={[0, height - 0.05, 0]}>
+        <meshStandardMaterial color="#334155" />
+      </Cylinder>
+
+      {isTop && (
+        <Cone args={[0.5, 1, 32]} position={[0, height + 0.5, 0]}>
+          <meshStandardMaterial color="#ef4444" />
+        </Cone>
+      )}
+
+      {index === 0 && [0, 1, 2, 3].map((i) => (
         <mesh key={i} rotation={[0, i * (Math.PI / 2), 0]} position={[0, 0.5, 0]}>
           <boxGeometry args={[0.1, 1, 1.5]} />
           <meshStandardMaterial color="#ef4444" />
         </mesh>
       ))}
 
-      {/* Engine Nozzle */}
-      <Cone args={[0.4, 0.8, 32, 1, true]} position={[0, -0.4, 0]} rotation={[Math.PI, 0, 0]}>
-        <meshStandardMaterial color="#334155" side={THREE.DoubleSide} />
-      </Cone>
-
-      {/* Dynamic Flame */}
-      <mesh ref={flameRef} position={[0, -1, 0]}>
-        <coneGeometry args={[0.3, 1, 16, 1, true]} />
-        <meshBasicMaterial 
-          color={flowRate > 80 ? "#3b82f6" : "#f97316"} // Blue flame at high thrust
-          transparent 
-          opacity={0.8} 
-          side={THREE.DoubleSide}
-          blending={THREE.AdditiveBlending}
-        />
-      </mesh>
+      {nozzleLayout(stage.engineCount).map((nozzle, i) => (
+        <group key={i} position={[nozzle.x, 0, nozzle.z]}>
+          <Cone args={[nozzle.radius, NOZZLE_LENGTH, 32, 1, true]} position={[0, -NOZZLE_LENGTH / 2, 0]} rotation={[Math.PI, 0, 0]}>
+            <meshStandardMaterial color="#334155" side={THREE.DoubleSide} />
+          </Cone>
+          {firing && (
+            <EngineFlame flowRate={engine.massFlow} throttle={throttle} radius={nozzle.radius} color={enginePropellant(engine).flameColor} />
+          )}
+        </group>
+      ))}
     </group>
   );
-};
+});
 
-const TestStand = () => {
+const TestStand = React.forwardRef<THREE.Group>((_, ref) => {
   return (
-    <group position={[0, -2, 0]}>
+    <group ref={ref} position={[0, -2, 0]}>
       <Cylinder args={[2, 2.5, 1, 32]} position={[0, 0, 0]}>
         <meshStandardMaterial color="#1e293b" metalness={0.8} roughness={0.5} />
       </Cylinder>
       <gridHelper args={[20, 20, "#475569", "#1e293b"]} position={[0, -0.5, 0]} />
     </group>
   );
+});
+
+interface FlightSceneProps {
+  stack: RocketStage[];
+  body: CelestialBodyData;
+  ascent: AscentResult | null; // null while the rocket sits on the test stand
+  playing: boolean;
+  speed: number;
+  clock: React.MutableRefObject<number>; // Playback time in simulated seconds
+  onTick: (sample: AscentSample) => void;
+  onFinish: () => void;
+}
+
+// Plays back a simulated ascent: the stand drops away beneath the rocket, the sky darkens with altitude,
+// and spent stages fall away on ballistic paths from the moment they separate
+const FlightScene = ({ stack, body, ascent, playing, speed, clock, onTick, onFinish }: FlightSceneProps) => {
+  const standRef = useRef<THREE.Group>(null);
+  const skyRef = useRef<THREE.Color>(null);
+  const stageRefs = useRef<(THREE.Group | null)[]>([]);
+  const sinceTick = useRef(0);
+  const throttle = useRef(1);
+  const [firingStage, setFiringStage] = useState<number | null>(null);
+  const bases = useMemo(() => stageBases(stack), [stack]);
+
+  useFrame((_, delta) => {
+    if (!ascent) {
+      standRef.current?.position.setY(-2);
+      if (skyRef.current) skyColor(skyRef.current, body, 0);
+      stageRefs.current.forEach((group, i) => {
+        group?.position.set(0, bases[i], 0);
+        group?.rotation.set(0, 0, 0);
+        if (group) group.visible = true;
+      });
+      if (firingStage !== null) setFiringStage(null);
+      return;
+    }
+    const end = ascent.samples[ascent.samples.length - 1].time;
+    if (playing) clock.current = Math.min(end, clock.current + delta * speed);
+    const sample = sampleAt(ascent.samples, clock.current);
+
+    // One scene unit is a metre, so the stand is out of view within a few seconds of liftoff
+    standRef.current?.position.setY(-2 - sample.altitude);
+    if (skyRef.current) skyColor(skyRef.current, body, sample.altitude);
+
+    stageRefs.current.forEach((group, i) => {
+      if (!group) return;
+      const separation = ascent.separations.find((event) => event.stage === i && event.time <= clock.current);
+      if (!separation) {
+        group.position.set(0, bases[i], 0);
+        group.rotation.set(0, 0, 0);
+        group.visible = true;
+        return;
+      }
+      // Coasting without thrust (drag ignored) while the rest of the rocket flies on
+      const t = clock.current - separation.time;
+      const altitude = Math.max(0, separation.altitude + separation.velocity * t - 0.5 * body.surfaceGravity * t * t);
+      const offset = altitude - sample.altitude;
+      group.position.set(t * 0.8, bases[i] + offset, 0);
+      group.rotation.set(0, 0, -Math.min(1.2, t * 0.3));
+      group.visible = offset > -200;
+    });
+
+    throttle.current = sample.throttle;
+    const firing = sample.throttle > 0 ? sample.stage : null;
+    if (firing !== firingStage) setFiringStage(firing);
+
+    sinceTick.current += delta;
+    if (playing && (sinceTick.current >= HUD_INTERVAL || clock.current >= end)) {
+      sinceTick.current = 0;
+      onTick(sample);
+      if (clock.current >= end) onFinish();
+    }
+  });
+
+  return (
+    <>
+      <color ref={skyRef} attach="background" args={[AIR_COLOR.getStyle()]} />
+      {stack.map((stage, i) => (
+        <StageModel
+          key={i}
+          ref={(group) => { stageRefs.current[i] = group; }}
+          stage={stage}
+          index={i}
+          isTop={i === stack.length - 1}
+          firing={firingStage === i}
+          throttle={throttle}
+        />
+      ))}
+      <TestStand ref={standRef} />
+    </>
+  );
 };
 
 // --- Main Component ---
 
 const RocketLab: React.FC<RocketLabProps> = ({ onExit }) => {
-  const [flowRate, setFlowRate] = useState<number>(0); // kg/s
-  const [fuelLoad, setFuelLoad] = useState<number>(5000); // kg
-  
-  // Constants for simulation
-  const EXHAUST_VELOCITY = 2500; // m/s (approx for liquid fuel)
-  const ROCKET_DRY_MASS = 2000; // kg (structure + payload)
-
-  // 1. Thrust Calculation: F = m_dot * Ve
-  const thrustkN = (flowRate * EXHAUST_VELOCITY) / 1000; // kN
-  const thrustN = thrustkN * 1000; // Newtons
-
-  // 2. Burn Time: t = m_fuel / m_dot
-  const burnTimeSeconds = flowRate > 0 ? fuelLoad / flowRate : 0;
-
-  // 3. Delta V (Tsiolkovsky Rocket Equation): dV = Ve * ln(m0 / mf)
-  const initialMass = ROCKET_DRY_MASS + fuelLoad;
-  const finalMass = ROCKET_DRY_MASS;
-  // We calculate potential Delta V based on full tank, but applied acceleration depends on flow.
-  const maxDeltaV = EXHAUST_VELOCITY * Math.log(initialMass / finalMass); // m/s
-
-  // 4. Distance Traveled DURING Burn (Acceleration Phase)
-  // Approximation: d = 1/2 * a * t^2
-  // Since mass changes, acceleration is not constant. We use average mass for estimation.
-  const averageMass = ROCKET_DRY_MASS + (fuelLoad / 2);
-  const averageAcceleration = flowRate > 0 ? thrustN / averageMass : 0; // m/s^2
-  
-  const burnDistanceMeters = 0.5 * averageAcceleration * Math.pow(burnTimeSeconds, 2);
-  const burnDistanceKm = burnDistanceMeters / 1000;
+  const [stackParam, setStackParam] = useUrlState('stack', encodeStack(DEFAULT_STACK), {
+    parse: (raw) => (decodeStack(raw) ? raw : null),
+  });
+  const stack = useMemo(() => decodeStack(stackParam) ?? DEFAULT_STACK, [stackParam]);
+  const setStack = (next: RocketStage[]) => setStackParam(encodeStack(next));
+  const [padId, setPadId] = useUrlState('pad', 'earth', { parse: oneOf(LAUNCH_SITES.map((b) => b.id)) });
+  const pad = getBodyById(padId)!;
+  const [profileParam, setProfileParam] = useUrlState('throttle', encodeProfile(FULL_THROTTLE), {
+    parse: (raw) => (decodeProfile(raw) ? raw : null),
+  });
+  const profile = useMemo(() => decodeProfile(profileParam) ?? FULL_THROTTLE, [profileParam]);
+
+  // 1. Rocket equation stage by stage: Δv = vₑ·ln(m₀/m_f), with m₀ including every stage above
+  const summaries = useMemo(() => summarizeStack(stack), [stack]);
+  const totalDeltaV = summaries.reduce((sum, s) => sum + s.deltaV, 0);
+  const withoutStaging = unstagedDeltaV(stack);
+
+  // 2. Burn time and the distance covered during the burns, in free space
+  const totalBurnTime = summaries.reduce((sum, s) => sum + s.burnTime, 0);
+  const idealDistance = summaries.reduce((sum, s) => sum + s.idealDistance, 0);
+
+  // 3. On the pad: thrust-to-weight against local gravity, and the least delta-v that reaches orbit from here
+  const site = useMemo(() => assessLaunch(stack, pad), [stack, pad]);
+  const liftoffMass = summaries[0].initialMass;
+  const liftoffThrust = thrustAt(stack[0], site.surfacePressure); // Less than in vacuum: the air pushes back on the nozzle exit
+  const liftoffWeight = liftoffMass * site.gravity;
+  const canHover = site.hoverThrottle <= 1;
+  const orbitMargin = totalDeltaV - site.deltaVToOrbit;
+
+  // 4. Simulated ascent from the pad, with gravity, drag, staging and the throttle profile
+  const ascent = useMemo(() => simulateAscent(toAscentVehicle(stack, toThrottleSchedule(profile)), pad), [stack, pad, profile]);
+  const peakLoad = ascent.maxLoad.load / G0;
+
+  // The timeline covers the full-throttle burns with room for throttling down and coasting, up to the latest time
+  // a keyframe can have; the last command holds after that
+  const lastKeyframe = profile.keyframes[profile.keyframes.length - 1].time;
+  const timelineDuration = Math.min(PROFILE_LIMITS.time.max, Math.ceil(Math.max(totalBurnTime * 1.5, lastKeyframe + 20) / 30) * 30);
+  const flownThrottle = useMemo(() => ascent.samples.map(({ time, throttle }) => ({ time, throttle })), [ascent]);
+
+  // Playback
+  const clock = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [flight, setFlight] = useState<AscentSample | null>(null); // Latest HUD reading, null before launch
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+
+  const reset = () => {
+    clock.current = 0;
+    setPlaying(false);
+    setFlight(null);
+  };
+
+  const launch = () => {
+    clock.current = 0;
+    setFlight(ascent.samples[0]);
+    setPlaying(true);
+  };
+
+  // A changed rocket is a new flight
+  useEffect(reset, [ascent]);
+
+  const stageLabel = (i: number) => `Stage ${i + 1}`;
+  const stageInputs = Object.fromEntries(stack.flatMap((stage, i) => [
+    [`${stageLabel(i)} dry mass incl. engines (kg)`, stageDryMass(stage)],
+    [`${stageLabel(i)} propellant (kg)`, stage.propellantMass],
+    [`${stageLabel(i)} engines`, `${stage.engineCount} × ${stageEngine(stage).name} (${enginePropellant(stageEngine(stage)).name})`],
+    [`${stageLabel(i)} sea-level Isp (s)`, stageEngine(stage).seaLevelIsp ?? 'cannot run at sea level'],
+    [`${stageLabel(i)} vacuum Isp (s)`, stageEngine(stage).vacuumIsp],
+  ]));
+  const stageDeltaVs = Object.fromEntries(summaries.map((s, i) => [`${stageLabel(i)} delta-v (m/s)`, s.deltaV]));
+  const stageThrustToWeight = Object.fromEntries(site.thrustToWeight.map((twr, i) => [`${stageLabel(i)} thrust-to-weight`, twr]));
+  const separationTimes = Object.fromEntries(ascent.separations.map((event) => [`${stageLabel(event.stage)} separation (s after launch)`, event.time]));
+
+  useLabContext('Rocket Lab', {
+    ...stageInputs,
+    ...stageDeltaVs,
+    'Total delta-v (m/s)': totalDeltaV,
+    'Delta-v without staging (m/s)': withoutStaging,
+    'Launch body': pad.name,
+    'Surface gravity (m/s²)': site.gravity,
+    'Liftoff thrust (kN)': liftoffThrust / 1000,
+    'Liftoff mass (kg)': liftoffMass,
+    ...stageThrustToWeight,
+    'Hover throttle (%)': canHover ? site.hoverThrottle * 100 : 'cannot hover',
+    'Delta-v to low orbit (m/s)': site.deltaVToOrbit,
+    'Delta-v margin to orbit (m/s)': orbitMargin,
+    'Throttle profile': describeProfile(profile),
+    'Total burn time (s)': totalBurnTime,
+    'Simulated outcome': OUTCOME_TEXT[ascent.outcome],
+    ...separationTimes,
+    'Simulated burnout altitude (m)': ascent.burnout.altitude,
+    'Simulated burnout velocity (m/s)': ascent.burnout.velocity,
+    'Simulated max-Q (Pa)': ascent.maxQ.dynamicPressure,
+    'Simulated peak g-load (g)': peakLoad,
+    'Simulated apogee (m)': ascent.apogee.altitude,
+    'Playback time (s)': flight ? flight.time : 'not launched',
+  });
+
+  const totalPropellant = stack.reduce((sum, s) => sum + s.propellantMass, 0);
+  const experiment: ExperimentRecord | null = !flight ? null : {
+    lab: 'Rocket Lab',
+    title: `${stack.length}-stage rocket with ${totalPropellant} kg of propellant`,
+    prediction: `Applying Δv = vₑ·ln(m₀/m_f) to each stage, with m₀ including every stage above it, gives `
+      + `${summaries.map((s) => s.deltaV.toFixed(0)).join(' + ')} = ${totalDeltaV.toFixed(0)} m/s; `
+      + `carrying every empty stage to the end would give only ${withoutStaging.toFixed(0)} m/s.`,
+    procedure: [
+      `Stacked ${stack.length} stage${stack.length > 1 ? 's' : ''} on the test stand, bottom stage first.`,
+      'Chose the dry mass, propellant load, engine type and engine count of each stage.',
+      'Read off each stage\'s delta-v, burn time and the distance covered during the burns.',
+      `Set the throttle profile: ${describeProfile(profile)}.`,
+      `Simulated a vertical launch from ${pad.name} with gravity, air drag (Cd = ${DRAG_COEFFICIENT}, ${REFERENCE_AREA.toFixed(2)} m² frontal area) `
+        + 'and each stage dropped as its tanks ran dry.',
+    ],
+    inputs: { 'Launch body': pad.name, ...stageInputs, 'Throttle profile': describeProfile(profile) },
+    results: {
+      ...stageDeltaVs,
+      'Total delta-v (m/s)': totalDeltaV,
+      'Delta-v without staging (m/s)': withoutStaging,
+      ...stageThrustToWeight,
+      'Hover throttle (%)': canHover ? site.hoverThrottle * 100 : 'cannot hover',
+      'Delta-v to low orbit (m/s)': site.deltaVToOrbit,
+      'Delta-v margin to orbit (m/s)': orbitMargin,
+      'Total burn time (s)': totalBurnTime,
+      'Distance covered during burns (km)': idealDistance / 1000,
+      ...separationTimes,
+      'Simulated burnout time (s)': ascent.burnout.time,
+      'Simulated burnout altitude (m)': ascent.burnout.altitude,
+      'Simulated burnout velocity (m/s)': ascent.burnout.velocity,
+      'Simulated max-Q (Pa)': ascent.maxQ.dynamicPressure,
+      'Simulated max-Q altitude (m)': ascent.maxQ.altitude,
+      'Simulated peak g-load (g)': peakLoad,
+      'Simulated apogee (m)': ascent.apogee.altitude,
+      'Simulated outcome': OUTCOME_TEXT[ascent.outcome],
+    },
+    findings: [
+      stack.length > 1
+        ? `Dropping each empty stage added ${(totalDeltaV - withoutStaging).toFixed(0)} m/s over carrying the dead weight to the end.`
+        : 'With a single stage, every kilogram of empty tank is carried all the way to burnout.',
+      `Stage 1 makes ${(liftoffThrust / 1000).toFixed(1)} kN at liftoff and ${(summaries[0].thrust / 1000).toFixed(1)} kN in vacuum, `
+        + 'because the surrounding air pushes back on the nozzle exit.',
+      ascent.liftoff
+        ? `With gravity and drag the rocket reached ${ascent.burnout.velocity.toFixed(0)} m/s at burnout instead of the ideal ${totalDeltaV.toFixed(0)} m/s, `
+          + `losing ${(totalDeltaV - ascent.burnout.velocity).toFixed(0)} m/s to gravity, drag and time spent on the pad or throttled back.`
+        : `Liftoff thrust (${(liftoffThrust / 1000).toFixed(1)} kN) was below the fully fuelled weight (${(liftoffWeight / 1000).toFixed(1)} kN) on ${pad.name}, so the rocket never lifted off.`,
+      orbitMargin >= 0
+        ? `The ${totalDeltaV.toFixed(0)} m/s of delta-v is ${orbitMargin.toFixed(0)} m/s more than the ${site.deltaVToOrbit.toFixed(0)} m/s minimum for a low orbit of ${pad.name}.`
+        : `The ${totalDeltaV.toFixed(0)} m/s of delta-v falls ${(-orbitMargin).toFixed(0)} m/s short of the ${site.deltaVToOrbit.toFixed(0)} m/s minimum for a low orbit of ${pad.name}.`,
+      `Dynamic pressure peaked at ${(ascent.maxQ.dynamicPressure / 1000).toFixed(1)} kPa ${ascent.maxQ.time.toFixed(0)} s after launch, and the crew would have felt `
+        + `at most ${peakLoad.toFixed(1)} g${profile.maxLoad === null ? '' : ` against a ${profile.maxLoad} g limit`}.`,
+    ],
+    limitations: [
+      'The ideal figures ignore gravity and air drag; the simulated ascent is vertical only, over a non-rotating planet.',
+      'Drag uses a fixed drag coefficient and an exponential atmosphere, with no transonic drag rise.',
+      'Stages separate the instant their tanks run dry and the next stage ignites at once, with no coast.',
+      'Isp varies linearly with ambient pressure between the quoted sea-level and vacuum values; real nozzles can also suffer flow separation low down.',
+      'Engine figures are rounded published values; throttle changes take effect at once, anywhere in each engine\'s range.',
+      'Delta-v to orbit is the loss-free minimum from a non-rotating surface; real launches lose more to gravity and drag.',
+    ],
+  };
 
   return (
     <div className="w-full h-screen bg-slate-900 relative overflow-hidden flex">
-      
+
       {/* Left Side: 3D Simulation */}
       <div className="flex-grow relative h-full">
         <div className="absolute top-8 left-8 z-10">
-          <button 
+          <button
             onClick={onExit}
             className="flex items-center text-cyan-400 hover:text-white transition-colors bg-black/50 px-4 py-2 rounded border border-cyan-500/30 backdrop-blur-sm"
           >
@@ -126,94 +456,153 @@ const RocketLab: React.FC<RocketLabProps> = ({ onExit }) => {
           </button>
         </div>
 
-        <Canvas camera={{ position: [4, 4, 6], fov: 50 }}>
-          <color attach="background" args={['#0f172a']} />
+        <Canvas camera={{ position: [7, 6, 12], fov: 50 }}>
           <Stars radius={100} depth={50} count={2000} factor={4} saturation={0} fade speed={1} />
           <ambientLight intensity={0.4} />
           <pointLight position={[10, 10, 10]} intensity={1} />
           <pointLight position={[-10, -10, -5]} intensity={0.5} color="#f97316" />
-          
-          <RocketEngine flowRate={flowRate} />
-          <TestStand />
-          
-          <OrbitControls maxPolarAngle={Math.PI / 2} minDistance={3} maxDistance={15} />
+
+          <FlightScene
+            stack={stack}
+            body={pad}
+            ascent={flight ? ascent : null}
+            playing={playing}
+            speed={speed}
+            clock={clock}
+            onTick={setFlight}
+            onFinish={() => setPlaying(false)}
+          />
+
+          <OrbitControls target={[0, 4, 0]} maxPolarAngle={Math.PI / 2} minDistance={3} maxDistance={40} />
         </Canvas>
+
+        {/* Flight HUD */}
+        {flight && (
+          <div className="absolute bottom-8 left-8 z-10 bg-black/60 p-4 rounded backdrop-blur border border-cyan-500/30 font-mono text-sm space-y-1 min-w-[16rem]">
+            <p className="text-cyan-400 text-xs font-bold uppercase mb-2">T+ <Measure value={flight.time} dimension="time" unitClassName="text-xs text-gray-500" /></p>
+            {([
+              ['Altitude', flight.altitude, 'length'],
+              ['Velocity', flight.velocity, 'velocity'],
+              ['Thrust', flight.thrust, 'force'],
+              ['Acceleration', flight.acceleration, 'acceleration'],
+              ['Dynamic pressure', flight.dynamicPressure, 'pressure'],
+              ['Mass', flight.mass, 'mass'],
+            ] as const).map(([label, value, dimension]) => (
+              <div key={label} className="flex justify-between gap-4">
+                <span className="text-gray-400">{label}</span>
+                <span className="text-white"><Measure value={value} dimension={dimension} unitClassName="text-xs text-gray-500" /></span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-400">g-load</span>
+              <span className="text-white">{((flight.acceleration + flight.gravity) / G0).toFixed(2)} <span className="text-xs text-gray-500">g</span></span>
+            </div>
+            <p className="text-[10px] text-gray-500 pt-1">
+              {flight.throttle > 0
+                ? `${stageLabel(flight.stage)} at ${(flight.throttle * 100).toFixed(0)}% throttle`
+                : flight.time < ascent.burnout.time ? 'Engines off, waiting to relight' : 'Coasting'}
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Right Side: Control Panel & Data */}
       <div className="w-96 bg-slate-900 border-l border-cyan-500/30 p-6 flex flex-col gap-6 z-20 shadow-xl overflow-y-auto custom-scrollbar">
-        
+
         <div>
           <h2 className="text-2xl font-bold text-white brand-font flex items-center gap-2">
             <Rocket className="text-cyan-400" /> Rocket Lab
           </h2>
-          <p className="text-gray-400 text-sm mt-1">Propulsion & Range Calculator</p>
+          <p className="text-gray-400 text-sm mt-1">Multi-Stage Rocket Designer</p>
         </div>
 
-        {/* Controls */}
-        <div className="space-y-4">
-          <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-cyan-400 text-sm font-bold flex items-center gap-2">
-                <Gauge className="w-4 h-4" /> Fuel Flow Rate
-              </label>
-              <span className="text-white font-mono">{flowRate.toFixed(1)} kg/s</span>
-            </div>
-            <input 
-              type="range" 
-              min="0" 
-              max="100" 
-              step="0.1"
-              value={flowRate}
-              onChange={(e) => setFlowRate(parseFloat(e.target.value))}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
-            />
+        {/* Launch Pad */}
+        <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+              <Globe className="w-3 h-3" /> Launch Pad
+            </h3>
+            <select
+              value={padId}
+              disabled={playing}
+              onChange={(e) => setPadId(e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500"
+            >
+              {LAUNCH_SITES.map((body) => (
+                <option key={body.id} value={body.id}>{body.name}</option>
+              ))}
+            </select>
           </div>
 
-          <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-orange-400 text-sm font-bold flex items-center gap-2">
-                <Database className="w-4 h-4" /> Fuel Tank Load
-              </label>
-              <span className="text-white font-mono">{fuelLoad} kg</span>
-            </div>
-            <input 
-              type="range" 
-              min="1000" 
-              max="20000" 
-              step="500"
-              value={fuelLoad}
-              onChange={(e) => setFuelLoad(parseFloat(e.target.value))}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
-            />
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 font-mono text-xs">
+            <span className="text-gray-500">Gravity</span>
+            <span className="text-white text-right"><Measure value={site.gravity} dimension="acceleration" unitClassName="text-gray-500" /></span>
+            <span className="text-gray-500">Air pressure</span>
+            <span className="text-white text-right">
+              {site.surfacePressure > 0 ? <Measure value={site.surfacePressure} dimension="pressure" unitClassName="text-gray-500" /> : 'vacuum'}
+            </span>
+            <span className="text-gray-500">Liftoff T/W</span>
+            <span className={`text-right ${site.liftoff ? 'text-green-400' : 'text-red-400'}`}>
+              {site.thrustToWeight[0].toFixed(2)} · {site.liftoff ? 'GO' : 'NO GO'}
+            </span>
+            <span className="text-gray-500">Hover throttle</span>
+            <span className={`text-right ${canHover ? 'text-white' : 'text-red-400'}`}>
+              {canHover ? `${(site.hoverThrottle * 100).toFixed(0)}%` : "can't hover"}
+            </span>
+            <span className="text-gray-500">Δv to low orbit</span>
+            <span className="text-white text-right"><Measure value={site.deltaVToOrbit} dimension="velocity" unitClassName="text-gray-500" /></span>
+            <span className="text-gray-500">Margin</span>
+            <span className={`text-right ${orbitMargin >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {orbitMargin >= 0 ? '+' : ''}<Measure value={orbitMargin} dimension="velocity" unitClassName="text-gray-500" />
+            </span>
           </div>
+          <p className="text-[10px] text-gray-500">
+            Orbit at <Measure value={site.orbitAltitude} dimension="length" unitClassName="" />, where the orbital speed is{' '}
+            <Measure value={site.orbitalSpeed} dimension="velocity" unitClassName="" />.
+          </p>
         </div>
 
+        {/* Controls */}
+        <StageEditor stack={stack} summaries={summaries} thrustToWeight={site.thrustToWeight} onChange={setStack} disabled={playing} />
+
+        <ThrottleProfileEditor
+          profile={profile}
+          onChange={(next) => setProfileParam(encodeProfile(next))}
+          duration={timelineDuration}
+          flown={flownThrottle}
+          markers={[
+            ...(ascent.maxQ.dynamicPressure > 0 ? [{ time: ascent.maxQ.time, label: 'Max-Q' }] : []),
+            ...ascent.separations.map((event) => ({ time: event.time, label: `Sep ${event.stage + 1}` })),
+          ]}
+          playhead={flight ? flight.time : null}
+          disabled={playing}
+        />
+
         {/* Performance Data */}
         <div className="grid grid-cols-2 gap-3">
            <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
-              <p className="text-gray-500 text-[10px] uppercase">Thrust Generated</p>
-              <p className="text-xl text-white font-mono">{thrustkN.toFixed(1)} <span className="text-xs text-gray-400">kN</span></p>
+              <p className="text-gray-500 text-[10px] uppercase">Liftoff Thrust</p>
+              <p className="text-xl text-white font-mono"><Measure value={liftoffThrust} dimension="force" unitClassName="text-xs text-gray-400" /></p>
            </div>
            <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
-              <p className="text-gray-500 text-[10px] uppercase">Exhaust Velocity</p>
-              <p className="text-xl text-white font-mono">2.5 <span className="text-xs text-gray-400">km/s</span></p>
+              <p className="text-gray-500 text-[10px] uppercase">Liftoff Mass</p>
+              <p className="text-xl text-white font-mono"><Measure value={liftoffMass} dimension="mass" unitClassName="text-xs text-gray-400" /></p>
            </div>
         </div>
 
         {/* Distance / Burn Stats */}
         <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-4">
           <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
-            <Activity className="w-3 h-3" /> Mission Performance
+            <Activity className="w-3 h-3" /> Ideal Performance (vacuum, no gravity or drag)
           </h3>
-          
+
           <div className="flex items-center justify-between border-b border-gray-700 pb-2">
             <div className="flex items-center gap-2 text-gray-300 text-sm">
               <Timer className="w-4 h-4 text-yellow-500" /> Burn Time
             </div>
             <div className="text-right">
-              <p className="font-mono text-lg text-white">{flowRate > 0 ? burnTimeSeconds.toFixed(1) : "∞"} s</p>
-              <p className="text-[10px] text-gray-500">Until fuel depletion</p>
+              <p className="font-mono text-lg text-white"><Measure value={totalBurnTime} dimension="time" /></p>
+              <p className="text-[10px] text-gray-500">All stages, back to back</p>
             </div>
           </div>
 
@@ -222,26 +611,124 @@ const RocketLab: React.FC<RocketLabProps> = ({ onExit }) => {
               <Map className="w-4 h-4 text-green-500" /> Acceleration Dist.
             </div>
             <div className="text-right">
-              <p className="font-mono text-lg text-white">{flowRate > 0 ? burnDistanceKm.toFixed(2) : "0.00"} km</p>
-              <p className="text-[10px] text-gray-500">Distance covered during burn</p>
+              <p className="font-mono text-lg text-white"><Measure value={idealDistance} dimension="length" /></p>
+              <p className="text-[10px] text-gray-500">Distance covered during the burns</p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between border-b border-gray-700 pb-2">
+            <div className="flex items-center gap-2 text-gray-300 text-sm">
+              <Rocket className="w-4 h-4 text-red-500" /> Total Delta-V
+            </div>
+            <div className="text-right">
+              <p className="font-mono text-lg text-white"><Measure value={totalDeltaV} dimension="velocity" /></p>
+              <p className="text-[10px] text-gray-500">Sum of the stages</p>
             </div>
           </div>
 
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 text-gray-300 text-sm">
-              <Rocket className="w-4 h-4 text-red-500" /> Max Delta-V
+              <Layers className="w-4 h-4 text-gray-500" /> Without Staging
             </div>
             <div className="text-right">
-              <p className="font-mono text-lg text-white">{(maxDeltaV / 1000).toFixed(2)} km/s</p>
-              <p className="text-[10px] text-gray-500">Total velocity change capacity</p>
+              <p className="font-mono text-lg text-gray-400"><Measure value={withoutStaging} dimension="velocity" /></p>
+              <p className="text-[10px] text-gray-500">Empty stages carried to the end</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Simulated Ascent */}
+        <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-3">
+          <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+            <TrendingUp className="w-3 h-3" /> Simulated Ascent from {pad.name}
+          </h3>
+
+          <div className="flex gap-2">
+            <button
+              onClick={launch}
+              disabled={playing}
+              className="flex-1 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-30 disabled:cursor-not-allowed text-white font-bold py-2 rounded flex items-center justify-center gap-2 transition-colors"
+            >
+              <Play className="w-4 h-4" /> Launch
+            </button>
+            <button onClick={reset} className="bg-slate-700 hover:bg-slate-600 text-white px-3 rounded transition-colors" title="Back to the test stand">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <div className="flex rounded overflow-hidden border border-slate-700 text-xs" title="Playback speed">
+              {PLAYBACK_SPEEDS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  className={`px-2 transition-colors ${speed === option ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:bg-slate-800'}`}
+                >
+                  {option}×
+                </button>
+              ))}
             </div>
           </div>
+
+          <div className="text-sm space-y-2">
+            <p className={`text-xs font-bold ${ascent.liftoff ? 'text-green-400' : 'text-red-400'}`}>{OUTCOME_TEXT[ascent.outcome]}</p>
+            {ascent.liftoff && (
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 font-mono text-xs">
+                {ascent.separations.map((event) => (
+                  <React.Fragment key={event.stage}>
+                    <span className="text-gray-500">{stageLabel(event.stage)} separation</span>
+                    <span className="text-white text-right">
+                      T+<Measure value={event.time} dimension="time" unitClassName="text-gray-500" />,{' '}
+                      <Measure value={event.altitude} dimension="length" unitClassName="text-gray-500" />
+                    </span>
+                  </React.Fragment>
+                ))}
+                <span className="text-gray-500">Burnout</span>
+                <span className="text-white text-right">
+                  <Measure value={ascent.burnout.altitude} dimension="length" unitClassName="text-gray-500" />,{' '}
+                  <Measure value={ascent.burnout.velocity} dimension="velocity" unitClassName="text-gray-500" />
+                </span>
+                <span className="text-gray-500">Max-Q</span>
+                <span className="text-white text-right">
+                  <Measure value={ascent.maxQ.dynamicPressure} dimension="pressure" unitClassName="text-gray-500" /> at{' '}
+                  <Measure value={ascent.maxQ.altitude} dimension="length" unitClassName="text-gray-500" />
+                </span>
+                <span className="text-gray-500">Peak g-load</span>
+                <span className="text-white text-right">
+                  {peakLoad.toFixed(2)} <span className="text-gray-500">g</span> at T+<Measure value={ascent.maxLoad.time} dimension="time" unitClassName="text-gray-500" />
+                </span>
+                <span className="text-gray-500">{ascent.outcome === 'landed' ? 'Highest point' : ascent.outcome === 'apogee' ? 'Apogee' : 'Final altitude'}</span>
+                <span className="text-white text-right">
+                  <Measure value={ascent.apogee.altitude} dimension="length" unitClassName="text-gray-500" />
+                </span>
+                <span className="text-gray-500">Gravity + drag loss</span>
+                <span className="text-white text-right">
+                  <Measure value={totalDeltaV - ascent.burnout.velocity} dimension="velocity" unitClassName="text-gray-500" />
+                </span>
+              </div>
+            )}
+          </div>
         </div>
 
+        <TelemetryCharts
+          samples={ascent.samples}
+          separations={ascent.separations}
+          time={flight ? flight.time : null}
+          filename={`rocket-telemetry-${pad.id}`}
+          meta={{
+            lab: 'Rocket Lab',
+            launchBody: pad.name,
+            stages: stack.map((stage, i) => ({ stage: i + 1, ...stage, dryMassWithEngines: stageDryMass(stage) })),
+            throttleProfile: describeProfile(profile),
+            outcome: OUTCOME_TEXT[ascent.outcome],
+          }}
+        />
+
+        <LaunchComparison stack={stack} profile={profile} padId={padId} />
+
         <div className="bg-blue-900/20 border border-blue-500/30 p-3 rounded text-xs text-blue-200">
-          <strong>Physics Insight:</strong> Higher flow rate increases Thrust (Force), but burns fuel faster. 
-          Total Delta-V (change in speed) depends on the ratio of Fuel Mass to Dry Mass, not how fast you burn it!
+          <strong>Physics Insight:</strong> Each stage's Delta-V depends on its mass ratio, and the mass it starts with includes every stage above it.
+          Dropping empty tanks means the upper stages don't push dead weight, which is why staging beats one giant tank.
         </div>
+
+        <ReportBuilder experiment={experiment} />
       </div>
     </div>
   );
@@ -5,6 +5,8 @@ import { OrbitControls, Html, Center, Float, ContactShadows, Environment } from
 import { SATELLITE_EXAMPLES } from '../constants';
 import { ArrowLeft, Cpu, Radio, Zap, Layers, ZoomIn, MousePointer2 } from 'lucide-react';
 import * as THREE from 'three';
+import { useUrlState, oneOf } from '../services/router';
+import { useLabContext } from '../services/labContext';
 
 interface SatelliteLabProps {
   onHome: () => void;
@@ -433,12 +435,21 @@ const RoverSatelliteModel = ({ isExploded, selectedPartName, onSelectPart }: any
 
 
 const SatelliteLab: React.FC<SatelliteLabProps> = ({ onHome }) => {
-  const [activeSatId, setActiveSatId] = useState<string>('net-sat-1');
+  const [activeSatId, setActiveSatId] = useUrlState('satellite', 'net-sat-1', { parse: oneOf(SATELLITE_EXAMPLES.map((s) => s.id)) });
   const [isExploded, setIsExploded] = useState(false);
   const [selectedComponent, setSelectedComponent] = useState<ComponentInfo | null>(null);
 
   const activeData = SATELLITE_EXAMPLES.find(s => s.id === activeSatId);
 
+  useLabContext('Satellite Lab', {
+    'Spacecraft': activeData ? `${activeData.name} (${activeData.type})` : null,
+    'Mass': activeData?.specs.mass ?? null,
+    'Power source': activeData?.specs.power ?? null,
+    'Orbit': activeData?.specs.orbit ?? null,
+    'Exploded view': isExploded,
+    'Selected component': selectedComponent ? `${selectedComponent.name} (${selectedComponent.type}): ${selectedComponent.specs}` : null,
+  });
+
   const handlePartSelect = (info: ComponentInfo) => {
     setSelectedComponent(info);
   };
@@ -0,0 +1,156 @@
+import React, { useRef, useState, useCallback } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Play, Pause, Rewind, FastForward, Calendar } from 'lucide-react';
+import { MS_PER_DAY } from '../services/ephemeris';
+
+// Mutable simulation time shared between the render loop and the DOM controls.
+// Lives in a ref so the 3D scene can advance it every frame without re-rendering React.
+export interface SimClock {
+  timeMs: number; // Current simulation epoch (Unix ms, UTC)
+  daysPerSecond: number;
+  direction: 1 | -1;
+  paused: boolean;
+}
+
+export const WARP_PRESETS: { label: string; daysPerSecond: number }[] = [
+  { label: '1 day/s', daysPerSecond: 1 },
+  { label: '1 week/s', daysPerSecond: 7 },
+  { label: '1 month/s', daysPerSecond: 30.44 },
+  { label: '1 year/s', daysPerSecond: 365.25 },
+];
+
+// Range covered by the timeline scrubber
+export const TIMELINE_START_MS = Date.UTC(1900, 0, 1);
+export const TIMELINE_END_MS = Date.UTC(2100, 0, 1);
+
+// How often the DOM readout is refreshed while the clock runs (seconds)
+const UI_SYNC_INTERVAL = 0.1;
+
+export const formatSimDate = (timeMs: number): string => {
+  const iso = new Date(timeMs).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+};
+
+export const useSimulationClock = (initialTimeMs: number = Date.now()) => {
+  const clockRef = useRef<SimClock>({
+    timeMs: initialTimeMs,
+    daysPerSecond: WARP_PRESETS[0].daysPerSecond,
+    direction: 1,
+    paused: false,
+  });
+  const [snapshot, setSnapshot] = useState<SimClock>(() => ({ ...clockRef.current }));
+
+  const sync = useCallback(() => setSnapshot({ ...clockRef.current }), []);
+
+  const update = useCallback((patch: Partial<SimClock>) => {
+    Object.assign(clockRef.current, patch);
+    sync();
+  }, [sync]);
+
+  return { clockRef, snapshot, sync, update };
+};
+
+// --- In-Canvas driver: advances the clock. Mount before anything that reads it so bodies see this frame's time. ---
+
+interface ClockDriverProps {
+  clockRef: React.MutableRefObject<SimClock>;
+  onTick: () => void;
+}
+
+export const ClockDriver: React.FC<ClockDriverProps> = ({ clockRef, onTick }) => {
+  const sinceSync = useRef(0);
+
+  useFrame((_, delta) => {
+    const clock = clockRef.current;
+    if (clock.paused) return;
+
+    clock.timeMs += delta * clock.daysPerSecond * clock.direction * MS_PER_DAY;
+
+    sinceSync.current += delta;
+    if (sinceSync.current >= UI_SYNC_INTERVAL) {
+      sinceSync.current = 0;
+      onTick();
+    }
+  });
+
+  return null;
+};
+
+// --- DOM controls: play/pause, reverse, warp, date readout and timeline ---
+
+interface TimeControlsProps {
+  clock: SimClock;
+  onChange: (patch: Partial<SimClock>) => void;
+}
+
+export const TimeControls: React.FC<TimeControlsProps> = ({ clock, onChange }) => {
+  const scrubValue = Math.min(Math.max(clock.timeMs, TIMELINE_START_MS), TIMELINE_END_MS);
+
+  return (
+    <div className="bg-black/60 border border-cyan-500/30 px-4 py-3 backdrop-blur-md rounded-sm w-[36rem] max-w-[90vw] space-y-2">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onChange({ direction: clock.direction === 1 ? -1 : 1 })}
+          className={`p-1.5 rounded-sm border transition-colors ${clock.direction === -1 ? 'border-orange-500 text-orange-400 bg-orange-900/20' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+          title={clock.direction === 1 ? 'Run backwards' : 'Run forwards'}
+        >
+          {clock.direction === 1 ? <FastForward className="w-4 h-4" /> : <Rewind className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => onChange({ paused: !clock.paused })}
+          className="p-1.5 rounded-sm border border-cyan-500 text-cyan-400 bg-cyan-900/20 hover:bg-cyan-500/20 transition-colors"
+          title={clock.paused ? 'Resume' : 'Pause'}
+        >
+          {clock.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </button>
+
+        <select
+          value={clock.daysPerSecond}
+          onChange={(e) => onChange({ daysPerSecond: parseFloat(e.target.value) })}
+          className="bg-gray-900 border border-gray-700 text-cyan-300 font-mono text-xs px-2 py-1 rounded-sm"
+        >
+          {WARP_PRESETS.map((preset) => (
+            <option key={preset.label} value={preset.daysPerSecond}>{preset.label}</option>
+          ))}
+        </select>
+
+        <div className="flex-grow font-mono text-cyan-300 text-sm">
+          {formatSimDate(clock.timeMs)}
+          {clock.paused && <span className="ml-2 text-[10px] text-yellow-400 uppercase">Paused</span>}
+        </div>
+
+        <Calendar className="w-4 h-4 text-cyan-400" />
+        <input
+          type="date"
+          value={new Date(clock.timeMs).toISOString().slice(0, 10)}
+          onChange={(e) => {
+            if (e.target.value) onChange({ timeMs: Date.parse(`${e.target.value}T12:00:00Z`) });
+          }}
+          className="bg-gray-900 border border-gray-700 text-cyan-300 font-mono text-xs px-2 py-1 rounded-sm [color-scheme:dark]"
+          title="Jump to date"
+        />
+        <button
+          onClick={() => onChange({ timeMs: Date.now() })}
+          className="text-xs text-cyan-400 hover:text-white uppercase tracking-wider"
+        >
+          Today
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min={TIMELINE_START_MS}
+        max={TIMELINE_END_MS}
+        step={MS_PER_DAY}
+        value={scrubValue}
+        onChange={(e) => onChange({ timeMs: parseFloat(e.target.value) })}
+        className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+      />
+      <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+        <span>{new Date(TIMELINE_START_MS).getUTCFullYear()}</span>
+        <span>{new Date((TIMELINE_START_MS + TIMELINE_END_MS) / 2).getUTCFullYear()}</span>
+        <span>{new Date(TIMELINE_END_MS).getUTCFullYear()}</span>
+      </div>
+    </div>
+  );
+};
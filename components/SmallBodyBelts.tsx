@@ -0,0 +1,81 @@
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SimClock } from './SimulationClock';
+import { ScaleMode } from '../services/sceneScale';
+import { SmallBodyPopulation, generateAsteroidBelt, generateKuiperBelt, writePopulationPositions } from '../services/smallBodies';
+
+export const ASTEROID_BELT_COUNT = 4000;
+export const KUIPER_BELT_COUNT = 3000;
+
+interface BeltFieldProps {
+  population: SmallBodyPopulation;
+  clockRef: React.MutableRefObject<SimClock>;
+  scaleMode: ScaleMode;
+  color: string;
+  size: number;
+}
+
+// One instanced mesh per population; only the translation column of each instance matrix is rewritten per frame
+const BeltField: React.FC<BeltFieldProps> = ({ population, clockRef, scaleMode, color, size }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const lastTime = useRef<number | null>(null);
+
+  // Random per-particle scale, written once; positions are filled in by the frame loop
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    for (let i = 0; i < population.count; i++) {
+      const s = 0.4 + ((i * 7919) % 1000) / 1000;
+      mesh.setMatrixAt(i, matrix.makeScale(s, s, s));
+    }
+    lastTime.current = null;
+  }, [population]);
+
+  // Re-project on the next frame even if the clock is paused
+  useEffect(() => {
+    lastTime.current = null;
+  }, [scaleMode]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const timeMs = clockRef.current.timeMs;
+    if (!mesh || timeMs === lastTime.current) return;
+
+    lastTime.current = timeMs;
+    writePopulationPositions(population, timeMs, mesh.instanceMatrix.array as Float32Array, scaleMode, 12, 16);
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, population.count]}
+      frustumCulled={false} // Instances span the whole system; the default bounds are the single source geometry
+      raycast={() => null} // Not selectable, and keeps clicks on planets cheap
+    >
+      <icosahedronGeometry args={[size, 0]} />
+      <meshBasicMaterial color={color} transparent opacity={0.7} />
+    </instancedMesh>
+  );
+};
+
+interface SmallBodyBeltsProps {
+  clockRef: React.MutableRefObject<SimClock>;
+  scaleMode: ScaleMode;
+}
+
+const SmallBodyBelts: React.FC<SmallBodyBeltsProps> = ({ clockRef, scaleMode }) => {
+  const asteroidBelt = useMemo(() => generateAsteroidBelt(ASTEROID_BELT_COUNT), []);
+  const kuiperBelt = useMemo(() => generateKuiperBelt(KUIPER_BELT_COUNT), []);
+
+  return (
+    <group>
+      <BeltField population={asteroidBelt} clockRef={clockRef} scaleMode={scaleMode} color="#a8a29e" size={0.08} />
+      <BeltField population={kuiperBelt} clockRef={clockRef} scaleMode={scaleMode} color="#93c5fd" size={0.2} />
+    </group>
+  );
+};
+
+export default SmallBodyBelts;
@@ -1,9 +1,14 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useRef } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Stars, Float, Html } from '@react-three/drei';
 import { ArrowLeft, Sun, Zap, Battery, AlertTriangle, Info } from 'lucide-react';
 import * as THREE from 'three';
+import { useUrlState, numberInRange } from '../services/router';
+import { useLabContext } from '../services/labContext';
+import { BODY_CATALOG, getBodyById, getSunDistanceAU } from '../constants';
+import Measure from './Measure';
+import { AU_METERS } from '../services/units';
 
 interface SolarPowerLabProps {
   onExit: () => void;
@@ -12,6 +17,24 @@ interface SolarPowerLabProps {
 // --- Constants ---
 const SOLAR_CONSTANT = 1361; // W/m^2 at 1 AU
 
+// Planets and dwarf planets, which name the zones and mark the distance slider
+const SUN_ORBITING_BODIES = BODY_CATALOG.filter((body) => body.elements);
+const orbitAU = (id: string) => getSunDistanceAU(getBodyById(id)!);
+
+// Power status bands, bounded by the orbits of Venus, Mars and Ceres (the asteroid belt)
+const getZoneInfo = (d: number) => {
+  // Irradiance goes as 1/d², so "nearest" is measured on a log scale
+  const nearest = SUN_ORBITING_BODIES.reduce((best, body) =>
+    Math.abs(Math.log(getSunDistanceAU(body) / d)) < Math.abs(Math.log(getSunDistanceAU(best) / d)) ? body : best);
+  const name = `Near ${nearest.name}'s orbit (${getSunDistanceAU(nearest).toFixed(2)} AU)`;
+  if (d < orbitAU('venus')) return { name, status: "EXTREME HEAT", color: "text-red-500" };
+  if (d < orbitAU('mars')) return { name, status: "OPTIMAL", color: "text-green-500" };
+  if (d < orbitAU('ceres')) return { name, status: "REDUCED OUTPUT", color: "text-yellow-500" };
+  return { name, status: "CRITICAL LOW POWER", color: "text-blue-500" };
+};
+
+const SLIDER_MARKS = ['mercury', 'earth', 'saturn'].map((id) => ({ name: getBodyById(id)!.name, au: orbitAU(id) }));
+
 // --- 3D Components ---
 
 const SolarPanelSatellite = ({ distanceAU, irradiance }: { distanceAU: number, irradiance: number }) => {
@@ -131,7 +154,7 @@ const FluxVisualization = ({ distanceAU }: { distanceAU: number }) => {
 // --- Main Component ---
 
 const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
-  const [distance, setDistance] = useState<number>(1.0); // AU
+  const [distance, setDistance] = useUrlState('au', 1.0, { parse: numberInRange(0.3, 10) }); // AU
 
   // Physics Calculation
   // I = P / (4 * pi * r^2), but we use Solar Constant reference.
@@ -145,15 +168,18 @@ const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
   const rawPower = irradiance * panelArea;
   const generatedPower = rawPower * 0.20; // 20% efficiency
 
-  const getZoneInfo = (d: number) => {
-    if (d < 0.7) return { name: "Inner Solar System (Mercury/Venus)", status: "EXTREME HEAT", color: "text-red-500" };
-    if (d < 1.5) return { name: "Habitable Zone (Earth)", status: "OPTIMAL", color: "text-green-500" };
-    if (d < 3.0) return { name: "Asteroid Belt / Mars", status: "REDUCED OUTPUT", color: "text-yellow-500" };
-    return { name: "Outer Solar System (Jupiter+)", status: "CRITICAL LOW POWER", color: "text-blue-500" };
-  };
-
   const zone = getZoneInfo(distance);
 
+  useLabContext('Solar Power Lab', {
+    'Distance from the Sun (AU)': distance,
+    'Irradiance (W/m²)': irradiance,
+    'Panel area (m²)': panelArea,
+    'Panel efficiency': '20%',
+    'Generated power (W)': generatedPower,
+    'Zone': zone.name,
+    'Power status': zone.status,
+  });
+
   return (
     <div className="w-full h-screen bg-slate-900 relative overflow-hidden flex">
       
@@ -201,7 +227,7 @@ const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
           <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
              <div className="flex justify-between items-end mb-2">
                <label className="text-cyan-400 text-sm font-bold">Distance from Sun</label>
-               <span className="text-2xl font-mono text-white">{distance.toFixed(2)} <span className="text-sm text-gray-500">AU</span></span>
+               <span className="text-2xl font-mono text-white"><Measure value={distance * AU_METERS} dimension="length" /></span>
              </div>
              <input 
               type="range" 
@@ -213,9 +239,11 @@ const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
               className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
             />
              <div className="flex justify-between text-[10px] text-gray-500 mt-1">
-               <span>Mercury (0.4)</span>
-               <span>Earth (1.0)</span>
-               <span>Saturn (9.5)</span>
+               {SLIDER_MARKS.map((mark) => (
+                 <button key={mark.name} onClick={() => setDistance(Number(mark.au.toFixed(1)))} className="hover:text-white">
+                   {mark.name} ({mark.au.toFixed(1)})
+                 </button>
+               ))}
              </div>
           </div>
 
@@ -234,7 +262,7 @@ const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
                 </div>
                 <p className="text-gray-400 text-xs uppercase">Solar Irradiance</p>
                 <p className="text-2xl font-mono text-white">
-                   {irradiance.toFixed(0)} <span className="text-sm text-gray-500">W/m²</span>
+                   <Measure value={irradiance} dimension="irradiance" />
                 </p>
              </div>
 
@@ -244,7 +272,7 @@ const SolarPowerLab: React.FC<SolarPowerLabProps> = ({ onExit }) => {
                 </div>
                 <p className="text-gray-400 text-xs uppercase">Generated Power (10m²)</p>
                 <p className="text-2xl font-mono text-white">
-                   {generatedPower.toFixed(0)} <span className="text-sm text-gray-500">Watts</span>
+                   <Measure value={generatedPower} dimension="power" />
                 </p>
              </div>
           </div>
@@ -1,14 +1,35 @@
 
-import React, { useRef, useState, useEffect, useMemo, Suspense } from 'react';
+import React, { useRef, useState, useEffect, useMemo, useCallback, Suspense } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Stars, Html, useTexture } from '@react-three/drei';
+import { OrbitControls, Stars, Html, Line, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
 import { VRButton } from 'three-stdlib';
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
-import { CelestialBodyData, PlanetEngineeringInfo } from '../types';
-import { SOLAR_SYSTEM_DATA } from '../constants';
-import { getPlanetEngineeringData } from '../services/geminiService';
-import { ArrowRight, ArrowLeft, Loader, X, Ruler, Moon, Rocket, Weight, Zap, Globe, Glasses } from 'lucide-react';
+import { CelestialBodyData, PlanetEngineeringInfo, Tour } from '../types';
+import { SOLAR_SYSTEM_DATA, getMoons, getBodyById } from '../constants';
+import { getPlanetEngineeringEntry, engineeringProvider } from '../services/geminiService';
+import { EngineeringField, EngineeringIssue } from '../services/engineeringValidation';
+import { isAbortError } from '../services/requestControl';
+import { formatAtmosphere, formatGravity, formatPressure, formatTemperature, formatTemperatureRange } from '../services/engineeringSchema';
+import {
+  getScenePosition,
+  getMoonLocalPosition,
+  getMoonOrbitPoint,
+  getSceneOrbitPath,
+  getSceneOrbitLandmarks,
+  createOrbitPlaneGeometry,
+} from '../services/ephemeris';
+import { ScaleMode, SCALE_MODES, CAMERA_LIMITS, getBodySceneRadius, getFocusDistance } from '../services/sceneScale';
+import { useUrlState } from '../services/router';
+import { ClockDriver, TimeControls, SimClock, useSimulationClock } from './SimulationClock';
+import SmallBodyBelts from './SmallBodyBelts';
+import VRControls, { VRLabLink } from './VRControls';
+import { useTourPlayer, TourCamera, TourCaption, TourMenu } from './TourPlayer';
+import TransferPlanner, { TransferArc } from './TransferPlanner';
+import ComparisonPanel, { ComparisonLineup, MAX_PINNED_BODIES } from './ComparisonPanel';
+import EngineeringCacheControls from './EngineeringCacheControls';
+import { TransferSolution } from '../services/transferPlanner';
+import { ArrowRight, ArrowLeft, Loader, X, Ruler, Moon, Rocket, Weight, Zap, Globe, Glasses, Layers, Crosshair, Sparkles, Scale, Navigation, Pin, Columns, Film, AlertTriangle, RefreshCw } from 'lucide-react';
 
 interface SolarSystem3DProps {
   mode: '2D' | '3D';
@@ -39,13 +60,15 @@ const VRIntegration = () => {
 
 interface SunProps {
   data: CelestialBodyData;
+  scaleMode: ScaleMode;
   onClick: () => void;
   isSelected: boolean;
   setRef: (el: THREE.Object3D | null) => void;
 }
 
-const Sun: React.FC<SunProps> = ({ data, onClick, isSelected, setRef }) => {
+const Sun: React.FC<SunProps> = ({ data, scaleMode, onClick, isSelected, setRef }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const radius = getBodySceneRadius(data, scaleMode);
 
   // Pulse animation for selection
   useFrame((state) => {
@@ -66,39 +89,189 @@ const Sun: React.FC<SunProps> = ({ data, onClick, isSelected, setRef }) => {
       onPointerOver={() => { document.body.style.cursor = 'pointer'; }}
       onPointerOut={() => { document.body.style.cursor = 'auto'; }}
     >
-      <sphereGeometry args={[data.radius, 64, 64]} />
+      <sphereGeometry args={[radius, 64, 64]} />
       <meshBasicMaterial color={data.color} />
       <pointLight distance={300} intensity={2} color="#ffffff" />
       
       {/* Glow effect (simple sprite-like mesh) */}
       <mesh scale={[1.2, 1.2, 1.2]}>
-        <sphereGeometry args={[data.radius, 32, 32]} />
+        <sphereGeometry args={[radius, 32, 32]} />
         <meshBasicMaterial color={data.color} transparent opacity={0.3} />
       </mesh>
     </mesh>
   );
 };
 
+interface OrbitMarkerProps {
+  position: THREE.Vector3;
+  color: string;
+  label: string;
+  showLabel: boolean;
+}
+
+const OrbitMarker: React.FC<OrbitMarkerProps> = ({ position, color, label, showLabel }) => (
+  <group position={position}>
+    <mesh>
+      <octahedronGeometry args={[0.35]} />
+      <meshBasicMaterial color={color} />
+    </mesh>
+    {showLabel && (
+      <Html position={[0, 0.8, 0]} center distanceFactor={15}>
+        <div className="text-[10px] font-mono whitespace-nowrap bg-black/70 px-1 rounded pointer-events-none select-none" style={{ color }}>
+          {label}
+        </div>
+      </Html>
+    )}
+  </group>
+);
+
+interface OrbitPathProps {
+  data: CelestialBodyData;
+  scaleMode: ScaleMode;
+  isSelected: boolean;
+  showPlane: boolean;
+  showMarkers: boolean;
+}
+
+// True Keplerian ellipse with its apsides, nodes and (optionally) the filled orbit plane
+const OrbitPath: React.FC<OrbitPathProps> = ({ data, scaleMode, isSelected, showPlane, showMarkers }) => {
+  const points = useMemo(() => getSceneOrbitPath(data, scaleMode), [data, scaleMode]);
+  const landmarks = useMemo(() => getSceneOrbitLandmarks(data, scaleMode), [data, scaleMode]);
+  const planeGeometry = useMemo(() => createOrbitPlaneGeometry(data, scaleMode), [data, scaleMode]);
+
+  useEffect(() => () => planeGeometry?.dispose(), [planeGeometry]);
+
+  if (points.length === 0) return null;
+
+  return (
+    <group>
+      <Line
+        points={points}
+        color={isSelected ? '#22d3ee' : '#666'}
+        lineWidth={isSelected ? 1.5 : 1}
+        transparent
+        opacity={isSelected ? 0.9 : 0.4}
+      />
+
+      {showPlane && planeGeometry && (
+        <>
+          <mesh geometry={planeGeometry} raycast={() => null}>
+            <meshBasicMaterial color={data.color} transparent opacity={isSelected ? 0.12 : 0.05} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+          {/* Line of nodes: where the orbit plane cuts the ecliptic */}
+          {landmarks && (
+            <Line points={[landmarks.ascendingNode, landmarks.descendingNode]} color="#a3e635" lineWidth={1} dashed dashSize={0.8} gapSize={0.6} transparent opacity={0.5} />
+          )}
+        </>
+      )}
+
+      {landmarks && (showMarkers || isSelected) && (
+        <>
+          <OrbitMarker position={landmarks.perihelion} color="#f87171" label="Perihelion" showLabel={isSelected} />
+          <OrbitMarker position={landmarks.aphelion} color="#60a5fa" label="Aphelion" showLabel={isSelected} />
+          <OrbitMarker position={landmarks.ascendingNode} color="#a3e635" label="Ascending Node ☊" showLabel={isSelected} />
+        </>
+      )}
+    </group>
+  );
+};
+
+interface MoonBodyProps {
+  data: CelestialBodyData;
+  scaleMode: ScaleMode;
+  clockRef: React.MutableRefObject<SimClock>;
+  onClick: (data: CelestialBodyData) => void;
+  isSelected: boolean;
+  showLabel: boolean;
+  setRef: (el: THREE.Object3D | null) => void;
+}
+
+const MoonBody: React.FC<MoonBodyProps> = ({ data, scaleMode, clockRef, onClick, isSelected, showLabel, setRef }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const simDate = useMemo(() => new Date(), []);
+  const radius = getBodySceneRadius(data, scaleMode);
+
+  const orbitPoints = useMemo(
+    () => Array.from({ length: 65 }, (_, i) => getMoonOrbitPoint(data, (i / 64) * Math.PI * 2, new THREE.Vector3(), scaleMode)),
+    [data, scaleMode]
+  );
+
+  useEffect(() => {
+    if (groupRef.current) setRef(groupRef.current);
+  }, [setRef]);
+
+  // Moons run on the same simulation clock, relative to the parent's group
+  useFrame(() => {
+    if (groupRef.current) {
+      simDate.setTime(clockRef.current.timeMs);
+      getMoonLocalPosition(data, simDate, groupRef.current.position, scaleMode);
+    }
+  });
+
+  return (
+    <>
+      <Line points={orbitPoints} color={isSelected ? '#22d3ee' : '#555'} lineWidth={1} transparent opacity={isSelected ? 0.8 : 0.35} />
+      <group ref={groupRef}>
+        <mesh
+          onClick={(e) => { e.stopPropagation(); onClick(data); }}
+          onPointerOver={() => { document.body.style.cursor = 'pointer'; }}
+          onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+        >
+          <sphereGeometry args={[radius, 24, 24]} />
+          <meshStandardMaterial
+            color={data.color}
+            roughness={0.9}
+            emissive={isSelected ? data.color : '#000'}
+            emissiveIntensity={isSelected ? 0.5 : 0}
+          />
+        </mesh>
+        {(showLabel || isSelected) && (
+          <Html position={[0, scaleMode === 'true' ? 0 : radius + 0.4, 0]} center distanceFactor={scaleMode === 'true' ? undefined : 10}>
+            <div className="text-gray-300 text-[10px] font-mono whitespace-nowrap bg-black/70 px-1 rounded border border-gray-500/30 pointer-events-none select-none">
+              {data.name}
+            </div>
+          </Html>
+        )}
+      </group>
+    </>
+  );
+};
+
 interface PlanetProps {
   data: CelestialBodyData;
   mode: '2D' | '3D';
+  scaleMode: ScaleMode;
+  clockRef: React.MutableRefObject<SimClock>;
   onClick: (data: CelestialBodyData) => void;
   isSelected: boolean;
+  selectedId: string | null;
+  showOrbitPlane: boolean;
+  showOrbitMarkers: boolean;
   setRef: (el: THREE.Object3D | null) => void;
+  setMoonRef: (id: string, el: THREE.Object3D | null) => void;
 }
 
 const Planet: React.FC<PlanetProps> = ({ 
   data, 
   mode,
+  scaleMode,
+  clockRef,
   onClick,
   isSelected,
-  setRef
+  selectedId,
+  showOrbitPlane,
+  showOrbitMarkers,
+  setRef,
+  setMoonRef
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const groupRef = useRef<THREE.Group>(null);
-  
-  // Random start angle so they aren't all aligned
-  const startAngle = useMemo(() => Math.random() * Math.PI * 2, []);
+  const simDate = useMemo(() => new Date(), []);
+  const moons = useMemo(() => getMoons(data.id), [data.id]);
+  const moonSystemFocused = isSelected || moons.some((moon) => moon.id === selectedId);
+  const radius = getBodySceneRadius(data, scaleMode);
+  // At true scale the bodies are sub-pixel, so labels are what let users find them
+  const trueScale = scaleMode === 'true';
   
   // Expose ref to parent
   useEffect(() => {
@@ -107,26 +280,22 @@ const Planet: React.FC<PlanetProps> = ({
     }
   }, [setRef, data.id]);
 
-  useFrame(({ clock }) => {
+  // Place the planet where its Keplerian orbit puts it at the current simulation time
+  useFrame(() => {
     if (groupRef.current && data.id !== 'sun') {
-      const t = clock.getElapsedTime() * (data.speed * 0.1) + startAngle;
-      const x = Math.cos(t) * data.distance;
-      const z = Math.sin(t) * data.distance;
-      groupRef.current.position.set(x, 0, z);
+      simDate.setTime(clockRef.current.timeMs);
+      getScenePosition(data, simDate, groupRef.current.position, scaleMode);
     }
   });
 
   if (data.id === 'sun') {
-    return <Sun data={data} onClick={() => onClick(data)} isSelected={isSelected} setRef={setRef} />;
+    return <Sun data={data} scaleMode={scaleMode} onClick={() => onClick(data)} isSelected={isSelected} setRef={setRef} />;
   }
 
   return (
     <group>
-      {/* Orbit Line (Visual only) */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]}>
-        <ringGeometry args={[data.distance - 0.1, data.distance + 0.1, 128]} />
-        <meshBasicMaterial color="#444" opacity={0.2} transparent side={THREE.DoubleSide} />
-      </mesh>
+      {/* Orbit Ellipse (eccentric and inclined, from the orbital elements) */}
+      <OrbitPath data={data} scaleMode={scaleMode} isSelected={isSelected} showPlane={showOrbitPlane} showMarkers={showOrbitMarkers} />
 
       {/* The Moving Planet Group */}
       <group ref={groupRef}>
@@ -136,7 +305,7 @@ const Planet: React.FC<PlanetProps> = ({
           onPointerOut={() => { document.body.style.cursor = 'auto'; }}
         >
           <mesh ref={meshRef}>
-            <sphereGeometry args={[data.radius, 64, 64]} />
+            <sphereGeometry args={[radius, 64, 64]} />
             <meshStandardMaterial 
               color={data.color} 
               metalness={0.2} 
@@ -149,20 +318,34 @@ const Planet: React.FC<PlanetProps> = ({
           {/* Simple Ring for Saturn (Color based) */}
           {data.id === 'saturn' && (
             <mesh rotation={[-Math.PI / 2.5, 0, 0]}>
-              <ringGeometry args={[data.radius * 1.4, data.radius * 2.2, 64]} />
+              <ringGeometry args={[radius * 1.4, radius * 2.2, 64]} />
               <meshBasicMaterial color="#A89C83" side={THREE.DoubleSide} transparent opacity={0.6} />
             </mesh>
           )}
         </group>
         
         {/* Planet Label */}
-        {(mode === '2D' || isSelected) && (
-          <Html position={[0, data.radius + 1, 0]} center distanceFactor={15}>
-            <div className="text-cyan-400 text-xs font-mono whitespace-nowrap bg-black/80 px-1 rounded border border-cyan-500/30 pointer-events-none select-none">
+        {(mode === '2D' || isSelected || trueScale) && (
+          <Html position={[0, trueScale ? 0 : radius + 1, 0]} center distanceFactor={trueScale ? undefined : 15}>
+            <div className={`text-cyan-400 text-xs font-mono whitespace-nowrap bg-black/80 px-1 rounded border border-cyan-500/30 pointer-events-none select-none ${trueScale ? '-translate-y-4' : ''}`}>
               {data.name}
             </div>
           </Html>
         )}
+
+        {/* Moon System (labels appear once the camera locks onto this planet or one of its moons) */}
+        {moons.map((moon) => (
+          <MoonBody
+            key={moon.id}
+            data={moon}
+            scaleMode={scaleMode}
+            clockRef={clockRef}
+            onClick={onClick}
+            isSelected={selectedId === moon.id}
+            showLabel={moonSystemFocused}
+            setRef={(el) => setMoonRef(moon.id, el)}
+          />
+        ))}
       </group>
     </group>
   );
@@ -170,13 +353,25 @@ const Planet: React.FC<PlanetProps> = ({
 
 interface CameraControllerProps {
   mode: '2D' | '3D';
+  scaleMode: ScaleMode;
   selectedPlanet: CelestialBodyData | null;
   planetRefs: React.MutableRefObject<Record<string, THREE.Object3D>>;
 }
 
-const CameraController: React.FC<CameraControllerProps> = ({ mode, selectedPlanet, planetRefs }) => {
+const CameraController: React.FC<CameraControllerProps> = ({ mode, scaleMode, selectedPlanet, planetRefs }) => {
   const { camera, gl } = useThree();
   const controlsRef = useRef<OrbitControlsImpl>(null);
+  const limits = CAMERA_LIMITS[scaleMode];
+
+  // Clip planes span very different ranges per scale mode (true scale goes from planet radii to the Kuiper belt)
+  useEffect(() => {
+    const perspective = camera as THREE.PerspectiveCamera;
+    perspective.near = limits.near;
+    perspective.far = limits.far;
+    perspective.updateProjectionMatrix();
+  }, [camera, limits]);
+  // Last world position of the focused body, to carry the camera along with it as the sim clock moves it
+  const lastFocus = useRef<{ id: string; pos: THREE.Vector3 } | null>(null);
   
   useFrame((state, delta) => {
     // If in VR mode, disable custom camera animation logic to let the headset track freely
@@ -195,12 +390,22 @@ const CameraController: React.FC<CameraControllerProps> = ({ mode, selectedPlane
       // Get current world position of the planet
       const currentPlanetPos = new THREE.Vector3();
       planetObj.getWorldPosition(currentPlanetPos);
+
+      // Move the camera rigidly with the body so the lock holds at any time warp
+      if (lastFocus.current?.id === selectedPlanet.id) {
+        const moved = currentPlanetPos.clone().sub(lastFocus.current.pos);
+        state.camera.position.add(moved);
+        controls.target.add(moved);
+        lastFocus.current.pos.copy(currentPlanetPos);
+      } else {
+        lastFocus.current = { id: selectedPlanet.id, pos: currentPlanetPos.clone() };
+      }
       
       // Update controls target to follow the planet
       targetPos.copy(currentPlanetPos);
 
       // Camera Placement Strategy
-      const dist = selectedPlanet.radius * 4 + 8;
+      const dist = getFocusDistance(selectedPlanet, getMoons(selectedPlanet.id), scaleMode);
 
       if (mode === '2D') {
         // In 2D, we strictly lock top-down
@@ -209,7 +414,8 @@ const CameraController: React.FC<CameraControllerProps> = ({ mode, selectedPlane
         state.camera.position.lerp(cameraPos, 4 * delta);
       } else {
         // In 3D, we want to follow the planet
-        const offset = new THREE.Vector3(dist, selectedPlanet.radius + 5, dist);
+        const lift = scaleMode === 'true' ? dist * 0.5 : getBodySceneRadius(selectedPlanet, scaleMode) + 5;
+        const offset = new THREE.Vector3(dist, lift, dist);
         cameraPos.copy(currentPlanetPos).add(offset);
         
         // Smoothly interpolate
@@ -218,13 +424,10 @@ const CameraController: React.FC<CameraControllerProps> = ({ mode, selectedPlane
 
     } else {
       // --- OVERVIEW ---
+      lastFocus.current = null;
       targetPos.set(0, 0, 0);
       
-      if (mode === '2D') {
-        cameraPos.set(0, 140, 0);
-      } else {
-        cameraPos.set(0, 60, 100);
-      }
+      cameraPos.fromArray(mode === '2D' ? limits.overview2D : limits.overview3D);
       
       state.camera.position.lerp(cameraPos, 2 * delta);
     }
@@ -245,8 +448,8 @@ const CameraController: React.FC<CameraControllerProps> = ({ mode, selectedPlane
       enablePan={false} 
       // In 2D we lock to top-down. In 3D we allow full 360 degree rotation (Math.PI)
       maxPolarAngle={mode === '2D' ? 0 : Math.PI} 
-      minDistance={5}
-      maxDistance={200}
+      minDistance={limits.minDistance}
+      maxDistance={limits.maxDistance}
     />
   );
 };
@@ -257,9 +460,84 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
   const [selectedPlanet, setSelectedPlanet] = useState<CelestialBodyData | null>(null);
   const [engInfo, setEngInfo] = useState<PlanetEngineeringInfo | null>(null);
   const [loadingInfo, setLoadingInfo] = useState(false);
+  const [engFetchedAt, setEngFetchedAt] = useState<number | null>(null);
+  const [engIssues, setEngIssues] = useState<EngineeringIssue[]>([]);
+  const [engError, setEngError] = useState<string | null>(null);
+  const [showOrbitPlanes, setShowOrbitPlanes] = useState(false);
+  const [showOrbitMarkers, setShowOrbitMarkers] = useState(false);
+  const [showBelts, setShowBelts] = useState(true);
+  const [scaleMode, setScaleMode] = useState<ScaleMode>('visual');
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [transfer, setTransfer] = useState<TransferSolution | null>(null);
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [showTourMenu, setShowTourMenu] = useState(false);
+  const { clockRef, snapshot: clock, sync: syncClock, update: updateClock } = useSimulationClock();
+  // Waypoints with a date move the simulation clock there on arrival
+  const enterWaypoint = useCallback((tour: Tour, index: number) => {
+    const { date } = tour.waypoints[index];
+    if (date) updateClock({ timeMs: Date.parse(date) });
+  }, [updateClock]);
+  const tourPlayer = useTourPlayer(enterWaypoint);
+  // Selected body as it appears in a shared link
+  const [bodyParam, setBodyParam] = useUrlState<string>('body', '');
 
   // Store references to 3D objects for camera tracking
   const planetRefs = useRef<Record<string, THREE.Object3D>>({});
+  // Everything that moves with the solar system; VR locomotion translates and scales this group
+  const worldRef = useRef<THREE.Group>(null);
+
+  // Lab shortcuts on the in-headset panel
+  const vrLabs: VRLabLink[] = [
+    onRocketLab && { label: 'Rocket', color: '#f97316', onOpen: onRocketLab },
+    onGravityLab && { label: 'Gravity', color: '#a855f7', onOpen: onGravityLab },
+    onSolarLab && { label: 'Solar', color: '#eab308', onOpen: onSolarLab },
+    onOrbitalLab && { label: 'Orbital', color: '#3b82f6', onOpen: onOrbitalLab },
+  ].filter((lab): lab is VRLabLink => !!lab);
+
+  // Only the latest request may update the panel; starting a new one cancels the previous
+  const infoRequestRef = useRef<AbortController | null>(null);
+
+  const cancelEngineeringInfo = () => {
+    infoRequestRef.current?.abort();
+    infoRequestRef.current = null;
+    setLoadingInfo(false);
+  };
+
+  const loadEngineeringInfo = async (planet: CelestialBodyData, refresh = false) => {
+    infoRequestRef.current?.abort();
+    const controller = new AbortController();
+    infoRequestRef.current = controller;
+    setLoadingInfo(true);
+    setEngError(null);
+
+    try {
+      // Fetch engineering data regardless of mode
+      const { info, fetchedAt, issues, error } = await getPlanetEngineeringEntry(planet.name, { refresh, signal: controller.signal });
+      setEngInfo(info);
+      setEngFetchedAt(fetchedAt);
+      setEngIssues(issues);
+      setEngError(error ?? null);
+    } catch (error) {
+      if (isAbortError(error)) return; // Superseded by a newer request, which now owns the panel
+      setEngError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (infoRequestRef.current === controller) {
+        infoRequestRef.current = null;
+        setLoadingInfo(false);
+      }
+    }
+  };
+
+  // Marks a value that failed the reference check
+  const flagFor = (field: EngineeringField) => {
+    const issue = engIssues.find((i) => i.field === field);
+    return issue && (
+      <span title={`${issue.label}: reported ${issue.reported}, reference ${issue.reference}`}>
+        <AlertTriangle className="w-3 h-3 text-amber-400" />
+      </span>
+    );
+  };
 
   const handlePlanetClick = async (planet: CelestialBodyData) => {
     if (selectedPlanet?.id !== planet.id) {
@@ -267,38 +545,119 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
     }
 
     setSelectedPlanet(planet);
-    setLoadingInfo(true);
-    
-    // Fetch Gemini data regardless of mode
-    const info = await getPlanetEngineeringData(planet.name);
-    setEngInfo(info);
-    setLoadingInfo(false);
+    setBodyParam(planet.id);
+    await loadEngineeringInfo(planet);
   };
 
+  const parentBody = selectedPlanet?.parentId
+    ? SOLAR_SYSTEM_DATA.find((body) => body.id === selectedPlanet.parentId) ?? null
+    : null;
+  const selectedMoons = selectedPlanet ? getMoons(selectedPlanet.id) : [];
+
   const closePanel = () => {
+    cancelEngineeringInfo();
     setSelectedPlanet(null);
+    setBodyParam('');
   };
 
+  // Select whatever body the URL names (on load from a link, and on back/forward)
+  useEffect(() => {
+    if (bodyParam === (selectedPlanet?.id ?? '')) return;
+    const body = bodyParam ? getBodyById(bodyParam) : undefined;
+    if (body) {
+      handlePlanetClick(body);
+    } else {
+      cancelEngineeringInfo();
+      setSelectedPlanet(null);
+    }
+  }, [bodyParam]);
+
+  const togglePin = (id: string) => {
+    setPinnedIds((ids) => (ids.includes(id) ? ids.filter((pinned) => pinned !== id) : [...ids, id].slice(0, MAX_PINNED_BODIES)));
+  };
+
+  const startTour = (tour: Tour) => {
+    closePanel();
+    setComparing(false);
+    setShowTourMenu(false);
+    tourPlayer.start(tour);
+  };
+
+  const startComparison = () => {
+    closePanel();
+    setComparing(true);
+  };
+
+  // Comparison needs at least two bodies
+  useEffect(() => {
+    if (pinnedIds.length < 2) setComparing(false);
+  }, [pinnedIds.length]);
+
+  const pinnedBodies = useMemo(
+    () => pinnedIds.map((id) => getBodyById(id)).filter((body): body is CelestialBodyData => !!body),
+    [pinnedIds]
+  );
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       {/* Canvas */}
-      <Canvas shadows camera={{ fov: 45, near: 0.1, far: 1000 }}>
+      <Canvas shadows camera={{ fov: 45, near: 0.1, far: 1000 }} gl={{ logarithmicDepthBuffer: true }}>
         <VRIntegration />
+        <ClockDriver clockRef={clockRef} onTick={syncClock} />
         <color attach="background" args={['#000000']} />
-        <Stars radius={300} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
+        <Stars radius={scaleMode === 'true' ? 3000 : 300} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
         <ambientLight intensity={0.3} /> 
-        <CameraController mode={mode} selectedPlanet={selectedPlanet} planetRefs={planetRefs} />
-
-        {SOLAR_SYSTEM_DATA.map((planet) => (
-          <Planet 
-            key={planet.id} 
-            data={planet} 
-            mode={mode}
-            onClick={handlePlanetClick}
-            isSelected={selectedPlanet?.id === planet.id}
-            setRef={(el) => { if (el) planetRefs.current[planet.id] = el; }}
+        {tourPlayer.tour ? (
+          <TourCamera
+            tour={tourPlayer.tour}
+            index={tourPlayer.index}
+            playing={tourPlayer.playing}
+            elapsedRef={tourPlayer.elapsedRef}
+            scaleMode={scaleMode}
+            bodyRefs={planetRefs}
+            onWaypointEnd={tourPlayer.next}
           />
-        ))}
+        ) : (
+          <CameraController mode={mode} scaleMode={scaleMode} selectedPlanet={selectedPlanet} planetRefs={planetRefs} />
+        )}
+        <VRControls
+          worldRef={worldRef}
+          bodyRefs={planetRefs}
+          selectedBody={selectedPlanet}
+          engInfo={engInfo}
+          loadingInfo={loadingInfo}
+          labs={vrLabs}
+          onSelect={handlePlanetClick}
+          onDeselect={closePanel}
+        />
+
+        <group ref={worldRef}>
+          {comparing ? (
+            <ComparisonLineup bodies={pinnedBodies} />
+          ) : (
+            <>
+              {showBelts && <SmallBodyBelts clockRef={clockRef} scaleMode={scaleMode} />}
+              {transfer && <TransferArc transfer={transfer} scaleMode={scaleMode} clockRef={clockRef} />}
+
+              {SOLAR_SYSTEM_DATA.map((planet) => (
+                <Planet 
+                  key={planet.id} 
+                  data={planet} 
+                  mode={mode}
+                  scaleMode={scaleMode}
+                  clockRef={clockRef}
+                  onClick={handlePlanetClick}
+                  isSelected={selectedPlanet?.id === planet.id}
+                  selectedId={selectedPlanet?.id ?? null}
+                  showOrbitPlane={showOrbitPlanes}
+                  showOrbitMarkers={showOrbitMarkers}
+                  setRef={(el) => { if (el) planetRefs.current[planet.id] = el; }}
+                  setMoonRef={(id, el) => { if (el) planetRefs.current[id] = el; }}
+                />
+              ))}
+            </>
+          )}
+        </group>
       </Canvas>
 
       {/* --- UI OVERLAYS --- */}
@@ -375,6 +734,125 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
         </p>
       </div>
 
+      {/* Left: View Options */}
+      <div className="absolute top-28 left-8 z-10 flex flex-col gap-2">
+        <div className="flex border border-gray-700 bg-black/50 backdrop-blur-md rounded-sm overflow-hidden" title="Distance and size scale">
+          <span className="px-2 flex items-center text-gray-500"><Scale className="w-3 h-3" /></span>
+          {SCALE_MODES.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setScaleMode(option.id)}
+              className={`px-2 py-1.5 text-xs uppercase tracking-wider transition-all ${scaleMode === option.id ? 'bg-cyan-900/50 text-cyan-300' : 'text-gray-400 hover:text-white'}`}
+              title={option.description}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setShowOrbitPlanes((v) => !v)}
+          className={`px-3 py-1.5 border text-xs uppercase tracking-wider flex items-center gap-2 backdrop-blur-md transition-all rounded-sm ${showOrbitPlanes ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300' : 'border-gray-700 bg-black/50 text-gray-400 hover:text-white'}`}
+          title="Shade each orbit plane and its line of nodes"
+        >
+          <Layers className="w-3 h-3" /> Orbit Planes
+        </button>
+        <button
+          onClick={() => setShowOrbitMarkers((v) => !v)}
+          className={`px-3 py-1.5 border text-xs uppercase tracking-wider flex items-center gap-2 backdrop-blur-md transition-all rounded-sm ${showOrbitMarkers ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300' : 'border-gray-700 bg-black/50 text-gray-400 hover:text-white'}`}
+          title="Mark perihelion, aphelion and ascending node on every orbit"
+        >
+          <Crosshair className="w-3 h-3" /> Apsides &amp; Nodes
+        </button>
+        <button
+          onClick={() => setShowBelts((v) => !v)}
+          className={`px-3 py-1.5 border text-xs uppercase tracking-wider flex items-center gap-2 backdrop-blur-md transition-all rounded-sm ${showBelts ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300' : 'border-gray-700 bg-black/50 text-gray-400 hover:text-white'}`}
+          title="Asteroid belt and Kuiper belt populations"
+        >
+          <Sparkles className="w-3 h-3" /> Small Bodies
+        </button>
+        <button
+          onClick={() => setShowPlanner((v) => !v)}
+          className={`px-3 py-1.5 border text-xs uppercase tracking-wider flex items-center gap-2 backdrop-blur-md transition-all rounded-sm ${showPlanner ? 'border-pink-500 bg-pink-900/30 text-pink-300' : 'border-gray-700 bg-black/50 text-gray-400 hover:text-white'}`}
+          title="Plan interplanetary transfers with a porkchop plot"
+        >
+          <Navigation className="w-3 h-3" /> Mission Planner
+        </button>
+        <button
+          onClick={() => setShowTourMenu((v) => !v)}
+          className={`px-3 py-1.5 border text-xs uppercase tracking-wider flex items-center gap-2 backdrop-blur-md transition-all rounded-sm ${showTourMenu || tourPlayer.tour ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300' : 'border-gray-700 bg-black/50 text-gray-400 hover:text-white'}`}
+          title="Guided camera tours with narration"
+        >
+          <Film className="w-3 h-3" /> Tours
+        </button>
+        {showTourMenu && <TourMenu onStart={startTour} />}
+
+        {/* Pinned bodies waiting to be compared */}
+        {pinnedBodies.length > 0 && (
+          <div className="border border-gray-700 bg-black/50 backdrop-blur-md rounded-sm p-2 flex flex-col gap-1 max-w-[12rem]">
+            <div className="flex flex-wrap gap-1">
+              {pinnedBodies.map((body) => (
+                <button
+                  key={body.id}
+                  onClick={() => togglePin(body.id)}
+                  className="text-[10px] px-1.5 py-0.5 rounded-sm border border-gray-700 text-gray-300 hover:border-red-500 hover:text-red-300 transition-colors"
+                  title="Unpin"
+                >
+                  {body.name} ×
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={comparing ? () => setComparing(false) : startComparison}
+              disabled={pinnedBodies.length < 2}
+              className={`px-2 py-1 text-xs uppercase tracking-wider flex items-center justify-center gap-2 rounded-sm border transition-all disabled:opacity-40 ${comparing ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+              title={pinnedBodies.length < 2 ? 'Pin at least two bodies' : 'Compare the pinned bodies side by side'}
+            >
+              <Columns className="w-3 h-3" /> {comparing ? 'Exit Compare' : 'Compare'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Bottom Center (above the clock): tour narration and playback controls */}
+      {tourPlayer.tour && (
+        <div className="absolute bottom-32 left-1/2 -translate-x-1/2 z-10">
+          <TourCaption
+            tour={tourPlayer.tour}
+            index={tourPlayer.index}
+            playing={tourPlayer.playing}
+            onTogglePause={tourPlayer.togglePause}
+            onNext={tourPlayer.next}
+            onPrev={tourPlayer.prev}
+            onStop={tourPlayer.stop}
+          />
+        </div>
+      )}
+
+      {/* Bottom Center (above the clock): side-by-side comparison of the pinned bodies */}
+      {comparing && (
+        <div className="absolute bottom-32 left-1/2 -translate-x-1/2 z-10">
+          <ComparisonPanel pinnedIds={pinnedIds} onUnpin={togglePin} onClose={() => setComparing(false)} />
+        </div>
+      )}
+
+      {/* Right: Transfer planner (porkchop plot); the chosen arc stays in the scene until cleared */}
+      {showPlanner && (
+        <div className="absolute top-24 right-8 z-10">
+          <TransferPlanner
+            startTimeMs={clock.timeMs}
+            transfer={transfer}
+            onSelectTransfer={setTransfer}
+            onJumpToTime={(timeMs) => updateClock({ timeMs })}
+            onClose={() => { setShowPlanner(false); setTransfer(null); }}
+          />
+        </div>
+      )}
+
+      {/* Bottom Center: Simulation Clock */}
+      <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10">
+        <TimeControls clock={clock} onChange={updateClock} />
+      </div>
+
       {/* Info Panel (Popped up on Click) */}
       {selectedPlanet && (
         <div className="absolute bottom-8 left-8 z-10 w-80 bg-black/90 border border-cyan-500/50 backdrop-blur-lg p-6 text-white shadow-[0_0_30px_rgba(0,255,255,0.1)] animate-in slide-in-from-left duration-300 rounded-sm">
@@ -387,7 +865,17 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
 
           <div className="flex items-center justify-between mb-4 border-b border-gray-700 pb-2">
             <h3 className="text-2xl font-bold text-cyan-400 brand-font">{selectedPlanet.name}</h3>
-            <span className="text-xs text-gray-500 uppercase font-mono">{selectedPlanet.type}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 uppercase font-mono">{selectedPlanet.type}</span>
+              <button
+                onClick={() => togglePin(selectedPlanet.id)}
+                disabled={!pinnedIds.includes(selectedPlanet.id) && pinnedIds.length >= MAX_PINNED_BODIES}
+                className={`transition-colors disabled:opacity-30 ${pinnedIds.includes(selectedPlanet.id) ? 'text-cyan-300' : 'text-gray-500 hover:text-white'}`}
+                title={pinnedIds.includes(selectedPlanet.id) ? 'Unpin from comparison' : `Pin to compare (up to ${MAX_PINNED_BODIES})`}
+              >
+                <Pin className="w-4 h-4" />
+              </button>
+            </div>
           </div>
           
           <div className="space-y-4">
@@ -397,25 +885,88 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
             </div>
 
             {/* Distance & Moons Section */}
-            <div className="grid grid-cols-2 gap-2">
-              <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
-                <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
-                  <Ruler className="w-3 h-3" /> Dist. from Sun
+            {selectedPlanet.type === 'moon' && selectedPlanet.moonOrbit ? (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
+                  <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
+                    <Ruler className="w-3 h-3" /> Orbit Radius
+                  </div>
+                  <p className="font-mono text-cyan-300 text-lg">
+                    {selectedPlanet.moonOrbit.semiMajorAxisKm.toLocaleString()} <span className="text-xs">km</span>
+                  </p>
                 </div>
-                {/* Calculate approximate AU. Earth (dist 22) = 1 AU. */}
-                <p className="font-mono text-cyan-300 text-lg">
-                  {(selectedPlanet.distance / 22).toFixed(2)} <span className="text-xs">AU</span>
-                </p>
+                <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
+                  <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
+                    <Moon className="w-3 h-3" /> Period
+                  </div>
+                  <p className="font-mono text-cyan-300 text-lg">
+                    {Math.abs(selectedPlanet.moonOrbit.periodDays).toFixed(2)} <span className="text-xs">days</span>
+                  </p>
+                  {selectedPlanet.moonOrbit.periodDays < 0 && <p className="text-[10px] text-orange-400">Retrograde</p>}
+                </div>
+                {parentBody && (
+                  <button
+                    onClick={() => handlePlanetClick(parentBody)}
+                    className="col-span-2 text-xs text-left text-gray-400 hover:text-cyan-300 transition-colors"
+                  >
+                    Orbits <span className="text-cyan-400 font-bold">{parentBody.name}</span>
+                  </button>
+                )}
               </div>
-              <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
-                 <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
-                  <Moon className="w-3 h-3" /> {selectedPlanet.id === 'sun' ? 'Planets' : 'Satellites'}
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
+                  <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
+                    <Ruler className="w-3 h-3" /> Dist. from Sun
+                  </div>
+                  {/* Semi-major axis from the orbital elements; scene distances are not to scale */}
+                  <p className="font-mono text-cyan-300 text-lg">
+                    {(selectedPlanet.elements?.semiMajorAxis ?? 0).toFixed(2)} <span className="text-xs">AU</span>
+                  </p>
                 </div>
-                <p className="font-mono text-cyan-300 text-lg">
-                  {selectedPlanet.id === 'sun' ? '8' : (selectedPlanet.moons || 0)}
+                <div className="bg-gray-800/50 p-2 rounded border border-gray-700 flex flex-col justify-center">
+                   <div className="flex items-center gap-1 text-xs text-gray-400 mb-1">
+                    <Moon className="w-3 h-3" /> {selectedPlanet.id === 'sun' ? 'Planets' : 'Satellites'}
+                  </div>
+                  <p className="font-mono text-cyan-300 text-lg">
+                    {selectedPlanet.id === 'sun' ? '8' : (selectedPlanet.moons || 0)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* Major moons rendered in the scene, selectable from here as well */}
+            {selectedMoons.length > 0 && (
+              <div>
+                <p className="text-xs text-gray-500 uppercase tracking-wider font-bold mb-1">Major Moons</p>
+                <div className="flex flex-wrap gap-1">
+                  {selectedMoons.map((moon) => (
+                    <button
+                      key={moon.id}
+                      onClick={() => handlePlanetClick(moon)}
+                      className="text-xs px-2 py-0.5 rounded-sm border border-gray-700 bg-gray-800/50 text-gray-300 hover:border-cyan-500 hover:text-cyan-300 transition-colors"
+                    >
+                      {moon.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {engError && !loadingInfo && (
+              <div className="bg-red-900/20 p-2 rounded border border-red-500/40 text-xs text-red-200 flex items-start justify-between gap-2">
+                <p>
+                  <span className="font-bold">{engineeringProvider.label} unavailable:</span> {engError}
+                  {engInfo && <span className="text-red-300/70"> Showing reference values.</span>}
                 </p>
+                <button
+                  onClick={() => loadEngineeringInfo(selectedPlanet)}
+                  className="shrink-0 flex items-center gap-1 px-2 py-0.5 border border-red-500/50 rounded-sm hover:bg-red-500/20 transition-colors uppercase tracking-wider text-[10px]"
+                >
+                  <RefreshCw className="w-3 h-3" /> Retry
+                </button>
               </div>
-            </div>
+            )}
 
             {loadingInfo ? (
               <div className="flex items-center justify-center py-6 text-cyan-400 animate-pulse border-t border-gray-700 mt-2">
@@ -425,30 +976,52 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
               <>
                 <div className="grid grid-cols-2 gap-2 text-sm pt-2 border-t border-gray-700">
                   <div className="bg-gray-900/50 p-2 rounded border border-gray-700">
-                    <p className="text-xs text-gray-500">Gravity</p>
-                    <p className="font-mono text-cyan-300">{engInfo.gravity}</p>
+                    <p className="text-xs text-gray-500 flex items-center gap-1">Gravity {flagFor('surfaceGravity')}</p>
+                    <p className="font-mono text-cyan-300">{formatGravity(engInfo.surfaceGravity)}</p>
                   </div>
                   <div className="bg-gray-900/50 p-2 rounded border border-gray-700">
-                    <p className="text-xs text-gray-500">Temp</p>
-                    <p className="font-mono text-cyan-300">{engInfo.temperature}</p>
+                    <p className="text-xs text-gray-500 flex items-center gap-1">
+                      Temp {flagFor('meanTemperature')}{flagFor('minTemperature')}{flagFor('maxTemperature')}
+                    </p>
+                    <p className="font-mono text-cyan-300">{formatTemperature(engInfo.meanTemperature)} avg</p>
+                    {formatTemperatureRange(engInfo) && (
+                      <p className="font-mono text-[10px] text-gray-500">{formatTemperatureRange(engInfo)}</p>
+                    )}
                   </div>
                 </div>
                 <div className="bg-gray-900/50 p-2 rounded border border-gray-700 text-sm">
-                  <p className="text-xs text-gray-500">Atmosphere</p>
-                  <p className="text-gray-300">{engInfo.atmosphere}</p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">Atmosphere {flagFor('atmosphere')}</p>
+                  <p className="text-gray-300">{formatAtmosphere(engInfo.atmosphere)}</p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                    Surface pressure: <span className="font-mono text-cyan-300">{formatPressure(engInfo.surfacePressure)}</span> {flagFor('surfacePressure')}
+                  </p>
                 </div>
+                {engIssues.length > 0 && (
+                  <div className="bg-amber-900/20 p-2 rounded border border-amber-500/40 text-xs text-amber-200 space-y-0.5">
+                    <p className="font-bold">{engineeringProvider.label} disagreed with the reference table; reference values shown.</p>
+                    {engIssues.map((issue) => (
+                      <p key={issue.field}>{issue.label}: reported {issue.reported}, reference {issue.reference}</p>
+                    ))}
+                  </div>
+                )}
                 <div className="bg-cyan-900/20 p-3 rounded border border-cyan-500/30 text-sm">
                   <p className="text-xs text-cyan-500 uppercase font-bold mb-1">Engineering Challenge</p>
                   <p className="text-cyan-100 italic">"{engInfo.engineeringChallenge}"</p>
                 </div>
+                <EngineeringCacheControls
+                  fetchedAt={engFetchedAt}
+                  loading={loadingInfo}
+                  onRefresh={() => loadEngineeringInfo(selectedPlanet, true)}
+                  onImported={() => loadEngineeringInfo(selectedPlanet)}
+                />
               </>
             ) : (
-               <p className="text-xs text-gray-500 pt-2">Initializing Gemini uplink...</p>
+               <p className="text-xs text-gray-500 pt-2">Initializing {engineeringProvider.label} uplink...</p>
             )}
           </div>
           
           <div className="absolute -top-3 -right-3 bg-cyan-500 text-black text-xs font-bold px-2 py-1 shadow-lg uppercase tracking-wider">
-            Live Data
+            {engineeringProvider.id === 'fixture' ? 'Offline Data' : 'Live Data'}
           </div>
         </div>
       )}
@@ -458,7 +1031,7 @@ const SolarSystem3D: React.FC<SolarSystem3DProps> = ({ mode, onNext, onPrev, onR
         <h4 className="text-gray-400 text-xs uppercase tracking-widest mb-1 font-bold">About Simulation</h4>
         <p className="text-gray-300 text-xs leading-relaxed">
           Visualizing Solar System dynamics for engineering applications.
-          Scale adapted for VR/Web visibility.
+          {' '}{SCALE_MODES.find((option) => option.id === scaleMode)?.description}
         </p>
       </div>
 
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Plus, Minus, Trash2, Layers } from 'lucide-react';
+import { RocketStage } from '../types';
+import { PROPELLANTS, ROCKET_ENGINES } from '../constants';
+import { MAX_STAGES, SEA_LEVEL_PRESSURE, STAGE_LIMITS, StageSummary, enginePropellant, stageEngine, thrustAt } from '../services/rocketDesign';
+import Measure from './Measure';
+
+interface StageEditorProps {
+  stack: RocketStage[]; // Bottom stage first
+  summaries: StageSummary[];
+  thrustToWeight: number[]; // Per stage at the launch pad's gravity
+  onChange: (stack: RocketStage[]) => void;
+  disabled?: boolean; // While a flight is playing
+}
+
+const NEW_UPPER_STAGE: RocketStage = { dryMass: 400, propellantMass: 2000, engineId: 'rl10b-2', engineCount: 1 };
+
+// "Isp 282/311 s · 97 bar · ε 16 · O/F 2.36 · 40–100%", leaving out what doesn't apply
+const engineSpecs = (stage: RocketStage) => {
+  const engine = stageEngine(stage);
+  return [
+    `Isp ${engine.seaLevelIsp ?? '—'}/${engine.vacuumIsp} s`,
+    engine.chamberPressure !== null && `${engine.chamberPressure} bar`,
+    engine.expansionRatio !== null && `ε ${engine.expansionRatio}`,
+    engine.mixtureRatio !== null && `O/F ${engine.mixtureRatio}`,
+    engine.minThrottle < 1 ? `${Math.round(engine.minThrottle * 100)}–100%` : 'full thrust only',
+  ].filter(Boolean).join(' · ');
+};
+
+// Stage stack editor for the Rocket Lab, with each stage's share of the delta-v
+const StageEditor: React.FC<StageEditorProps> = ({ stack, summaries, thrustToWeight, onChange, disabled = false }) => {
+  const update = (index: number, changes: Partial<RocketStage>) =>
+    onChange(stack.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+          <Layers className="w-3 h-3" /> Stage Stack
+        </h3>
+        <button
+          onClick={() => onChange([...stack, NEW_UPPER_STAGE])}
+          disabled={disabled || stack.length >= MAX_STAGES}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3 h-3" /> Add upper stage
+        </button>
+      </div>
+
+      {stack.map((stage, i) => {
+        const propellant = enginePropellant(stageEngine(stage));
+        return (
+          <div key={i} className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-white text-sm font-bold">
+                Stage {i + 1} <span className="text-gray-500 font-normal text-xs">{i === 0 ? '(fires first)' : i === stack.length - 1 ? '(top)' : ''}</span>
+              </p>
+              <div className="flex items-center gap-3">
+                <span
+                  className={`font-mono text-xs ${i === 0 && thrustToWeight[0] <= 1 ? 'text-red-400' : 'text-gray-400'}`}
+                  title={i === 0 ? 'Thrust-to-weight at liftoff' : 'Thrust-to-weight at ignition, in vacuum'}
+                >
+                  T/W {thrustToWeight[i].toFixed(2)}
+                </span>
+                <span className="text-cyan-300 font-mono text-xs">
+                  Δv <Measure value={summaries[i].deltaV} dimension="velocity" unitClassName="text-gray-500" />
+                </span>
+                <button
+                  onClick={() => onChange(stack.filter((_, j) => j !== i))}
+                  disabled={disabled || stack.length <= 1}
+                  className="text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Remove stage"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {([
+              ['Dry mass', 'dryMass', 'accent-cyan-500'],
+              ['Propellant', 'propellantMass', 'accent-orange-500'],
+            ] as const).map(([label, key, accent]) => (
+              <div key={key}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-gray-400">{label}</span>
+                  <span className="text-white font-mono"><Measure value={stage[key]} dimension="mass" unitClassName="text-gray-500" /></span>
+                </div>
+                <input
+                  type="range"
+                  min={STAGE_LIMITS[key].min}
+                  max={STAGE_LIMITS[key].max}
+                  step={STAGE_LIMITS[key].step}
+                  value={stage[key]}
+                  disabled={disabled}
+                  onChange={(e) => update(i, { [key]: parseFloat(e.target.value) })}
+                  className={`w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer ${accent} disabled:opacity-50`}
+                />
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <select
+                value={stage.engineId}
+                disabled={disabled}
+                onChange={(e) => update(i, { engineId: e.target.value })}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500"
+              >
+                {PROPELLANTS.map((propellant) => (
+                  <optgroup key={propellant.id} label={propellant.name}>
+                    {ROCKET_ENGINES.filter((engine) => engine.propellantId === propellant.id).map((engine) => (
+                      <option key={engine.id} value={engine.id}>{engine.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <div className="flex items-center gap-1 text-gray-400 text-xs" title="Number of engines">
+                <button
+                  onClick={() => update(i, { engineCount: stage.engineCount - 1 })}
+                  disabled={disabled || stage.engineCount <= STAGE_LIMITS.engineCount.min}
+                  className="hover:text-white disabled:opacity-30"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+                <span className="font-mono text-white w-6 text-center">×{stage.engineCount}</span>
+                <button
+                  onClick={() => update(i, { engineCount: stage.engineCount + 1 })}
+                  disabled={disabled || stage.engineCount >= STAGE_LIMITS.engineCount.max}
+                  className="hover:text-white disabled:opacity-30"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+
+            <p className="text-[10px] text-gray-400 flex items-center gap-1" title={propellant.description}>
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: propellant.flameColor }} />
+              {propellant.name} · {engineSpecs(stage)}
+            </p>
+            <p className="text-[10px] text-gray-500 font-mono">
+              <Measure value={thrustAt(stage, SEA_LEVEL_PRESSURE)} dimension="force" unitClassName="" /> at sea level,{' '}
+              <Measure value={summaries[i].thrust} dimension="force" unitClassName="" /> in vacuum, for{' '}
+              <Measure value={summaries[i].burnTime} dimension="time" unitClassName="" />, mass ratio {(summaries[i].initialMass / summaries[i].finalMass).toFixed(2)}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StageEditor;
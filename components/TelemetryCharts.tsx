@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Download } from 'lucide-react';
+import { AscentSample, StagingEvent, sampleAt } from '../services/ascentSimulation';
+import { TELEMETRY_CHANNELS, telemetryToCsv, telemetryToJson, toTelemetryRows } from '../services/telemetry';
+import { downloadFile, downloadJson } from '../services/download';
+import { formatQuantityText, useUnitPreferences } from '../services/units';
+import Measure from './Measure';
+
+interface TelemetryChartsProps {
+  samples: AscentSample[]; // The whole simulated flight
+  separations: StagingEvent[];
+  time: number | null; // Playback time in s; the charts fill in up to here, null before launch
+  filename: string; // Without extension
+  meta: Record<string, unknown>; // Written at the top of the JSON export
+}
+
+// Chart layout in SVG units
+const WIDTH = 320;
+const HEIGHT = 56;
+const PAD = { left: 4, right: 4, top: 4, bottom: 4 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+const MIN_WINDOW = 10; // s shown at the start of a flight, so the first samples don't fill the whole width
+
+// Strip charts of the flight so far, with a shared cursor, and the sampled data for download
+const TelemetryCharts: React.FC<TelemetryChartsProps> = ({ samples, separations, time, filename, meta }) => {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const units = useUnitPreferences(); // Axis labels follow the unit toggle
+  const rows = useMemo(() => toTelemetryRows(samples, separations), [samples, separations]);
+
+  const recorded = time === null ? [] : samples.filter((s) => s.time <= time);
+  const shown = Math.max(MIN_WINDOW, time ?? 0);
+  const x = (t: number) => PAD.left + (t / shown) * PLOT_WIDTH;
+  const readout = time === null ? null : sampleAt(samples, Math.min(cursor ?? time, time));
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    setCursor(Math.max(0, ((sx - PAD.left) / PLOT_WIDTH) * shown));
+  };
+
+  return (
+    <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+          <LineChart className="w-3 h-3" /> Telemetry
+        </h3>
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => downloadFile(`${filename}.csv`, telemetryToCsv(rows), 'text/csv')}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20"
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+          <button
+            onClick={() => downloadJson(`${filename}.json`, telemetryToJson(rows, meta))}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20"
+          >
+            <Download className="w-3 h-3" /> JSON
+          </button>
+        </div>
+      </div>
+
+      {time === null && <p className="text-xs text-gray-500">Launch to record the flight. The exports always hold the whole simulated flight.</p>}
+
+      {time !== null && (
+        <>
+          {readout && (
+            <p className="text-[10px] text-gray-400 font-mono">
+              {cursor === null ? 'Latest' : 'Cursor'} T+<Measure value={readout.time} dimension="time" unitClassName="" />
+            </p>
+          )}
+          {TELEMETRY_CHANNELS.map((channel) => {
+            const values = recorded.map((s) => s[channel.key]);
+            // Zero always in view, so the charts show how far a value is from nothing, not just its wiggles
+            const max = Math.max(0, ...values);
+            const min = Math.min(0, ...values);
+            const span = max - min || 1;
+            const y = (value: number) => PAD.top + (1 - (value - min) / span) * PLOT_HEIGHT;
+            const points = recorded.map((s) => `${x(s.time)},${y(s[channel.key])}`).join(' ');
+            return (
+              <div key={channel.key}>
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-400">{channel.label}</span>
+                  {readout && (
+                    <span className="font-mono" style={{ color: channel.color }}>
+                      <Measure value={readout[channel.key]} dimension={channel.dimension} unitClassName="text-gray-500" />
+                    </span>
+                  )}
+                </div>
+                <svg
+                  viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                  className="w-full cursor-crosshair select-none"
+                  onPointerMove={handlePointerMove}
+                  onPointerLeave={() => setCursor(null)}
+                >
+                  <rect x={PAD.left} y={PAD.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="#0f172a" stroke="#1e293b" />
+                  {min < 0 && <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#334155" />}
+                  <text x={PAD.left + 3} y={PAD.top + 9} fontSize={8} fill="#64748b">{formatQuantityText(max, channel.dimension, units)}</text>
+                  {points && <polyline points={points} fill="none" stroke={channel.color} strokeWidth={1.5} />}
+                  {cursor !== null && cursor <= time && (
+                    <line x1={x(cursor)} x2={x(cursor)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#f8fafc" strokeDasharray="2 2" />
+                  )}
+                </svg>
+              </div>
+            );
+          })}
+          <p className="text-[10px] text-gray-500">
+            Exports are in SI units and add the delta-v from thrust alone and ln(m₀/m) for each stage: plotted against each other,
+            their slope is the effective exhaust velocity from the rocket equation.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryCharts;
@@ -0,0 +1,311 @@
+import React, { useRef, useState } from 'react';
+import { Gauge, Save, Scissors, Trash2, X } from 'lucide-react';
+import { ThrottleKeyframe, ThrottleProfile } from '../types';
+import {
+  NamedProfile,
+  PRESET_PROFILES,
+  PROFILE_LIMITS,
+  deleteSavedProfile,
+  loadSavedProfiles,
+  saveProfile,
+} from '../services/throttleProfile';
+
+interface ThrottleProfileEditorProps {
+  profile: ThrottleProfile;
+  onChange: (profile: ThrottleProfile) => void;
+  duration: number; // s of flight shown on the timeline
+  flown: { time: number; throttle: number }[]; // What the engines actually did in the simulated flight
+  markers: { time: number; label: string }[]; // Max-Q, separations
+  playhead: number | null; // s, during playback
+  disabled?: boolean;
+}
+
+// Timeline layout in SVG units
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = { left: 30, right: 8, top: 8, bottom: 18 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+const THROTTLE_SNAP = 0.05;
+
+const snapThrottle = (value: number) => Math.min(1, Math.max(0, Math.round(value / THROTTLE_SNAP) * THROTTLE_SNAP));
+
+// Throttle curve editor for the Rocket Lab: click the timeline to add a keyframe, drag keyframes to move them
+const ThrottleProfileEditor: React.FC<ThrottleProfileEditorProps> = ({ profile, onChange, duration, flown, markers, playhead, disabled = false }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selected, setSelected] = useState(0);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [saved, setSaved] = useState<NamedProfile[]>(loadSavedProfiles);
+  const [saveName, setSaveName] = useState('');
+
+  const { keyframes } = profile;
+  const index = Math.min(selected, keyframes.length - 1); // A newly loaded profile may have fewer keyframes
+  const current = keyframes[index];
+  const x = (time: number) => PAD.left + (time / duration) * PLOT_WIDTH;
+  const y = (throttle: number) => PAD.top + (1 - throttle) * PLOT_HEIGHT;
+
+  // Pointer position as a time and throttle on the timeline
+  const toPlot = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const sy = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    return {
+      time: Math.round(Math.min(duration, PROFILE_LIMITS.time.max, Math.max(0, ((sx - PAD.left) / PLOT_WIDTH) * duration))),
+      throttle: snapThrottle(1 - (sy - PAD.top) / PLOT_HEIGHT),
+    };
+  };
+
+  const setKeyframes = (next: ThrottleKeyframe[]) => onChange({ ...profile, keyframes: next });
+
+  const updateKeyframe = (at: number, changes: Partial<ThrottleKeyframe>) => {
+    const next = { ...keyframes[at], ...changes };
+    // The first keyframe stays at launch; the others stay between their neighbours
+    const earliest = at === 0 ? 0 : keyframes[at - 1].time + 1;
+    const latest = at === 0 ? 0 : at < keyframes.length - 1 ? keyframes[at + 1].time - 1 : PROFILE_LIMITS.time.max;
+    next.time = Math.min(latest, Math.max(earliest, next.time));
+    setKeyframes(keyframes.map((k, i) => (i === at ? next : k)));
+  };
+
+  const addKeyframe = ({ time, throttle }: { time: number; throttle: number }) => {
+    if (keyframes.length >= PROFILE_LIMITS.keyframes || keyframes.some((k) => k.time === time)) return;
+    const after = keyframes.findIndex((k) => k.time > time);
+    const at = after === -1 ? keyframes.length : after;
+    setKeyframes([...keyframes.slice(0, at), { time, throttle, hold: false }, ...keyframes.slice(at)]);
+    setSelected(at);
+  };
+
+  const removeKeyframe = (at: number) => {
+    setKeyframes(keyframes.filter((_, i) => i !== at));
+    setSelected(at - 1);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const { time, throttle } = toPlot(e);
+    updateKeyframe(dragging, { time, throttle });
+  };
+
+  // The drawn curve: ramps are straight lines, holds are steps
+  const curve = keyframes.map((k, i) => {
+    if (i === 0) return `M ${x(k.time)} ${y(k.throttle)}`;
+    const previous = keyframes[i - 1];
+    return previous.hold ? `L ${x(k.time)} ${y(previous.throttle)} L ${x(k.time)} ${y(k.throttle)}` : `L ${x(k.time)} ${y(k.throttle)}`;
+  }).join(' ') + ` L ${x(duration)} ${y(keyframes[keyframes.length - 1].throttle)}`;
+
+  const flownLine = flown.filter((p) => p.time <= duration).map((p) => `${x(p.time)},${y(p.throttle)}`).join(' ');
+  const timeTicks = Array.from({ length: 5 }, (_, i) => Math.round((duration * i) / 4));
+
+  const loadProfile = (next: ThrottleProfile) => {
+    onChange(next);
+    setSelected(0);
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    setSaved(saveProfile(saved, name, profile));
+    setSaveName('');
+  };
+
+  return (
+    <div className="bg-black/20 p-4 rounded border border-gray-700 space-y-3">
+      <h3 className="text-cyan-500 text-xs font-bold uppercase flex items-center gap-2">
+        <Gauge className="w-3 h-3" /> Throttle Profile
+      </h3>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full select-none touch-none ${disabled ? 'opacity-60 pointer-events-none' : 'cursor-crosshair'}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+      >
+        <rect
+          x={PAD.left}
+          y={PAD.top}
+          width={PLOT_WIDTH}
+          height={PLOT_HEIGHT}
+          fill="#0f172a"
+          stroke="#334155"
+          onPointerDown={(e) => addKeyframe(toPlot(e))}
+        />
+        {[0, 0.5, 1].map((level) => (
+          <g key={level}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(level)} y2={y(level)} stroke="#1e293b" pointerEvents="none" />
+            <text x={PAD.left - 4} y={y(level) + 3} textAnchor="end" fontSize={8} fill="#64748b">{level * 100}%</text>
+          </g>
+        ))}
+        {timeTicks.map((time) => (
+          <text key={time} x={x(time)} y={HEIGHT - 6} textAnchor="middle" fontSize={8} fill="#64748b">{time} s</text>
+        ))}
+
+        {markers.filter((m) => m.time <= duration).map((marker) => (
+          <g key={marker.label} pointerEvents="none">
+            <line x1={x(marker.time)} x2={x(marker.time)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#a855f7" strokeDasharray="2 2" />
+            <text x={x(marker.time) + 2} y={PAD.top + 8} fontSize={7} fill="#c084fc">{marker.label}</text>
+          </g>
+        ))}
+
+        {/* What the engines did: the engines' throttle range, the g-limit and staging all show up here */}
+        {flownLine && <polyline points={flownLine} fill="none" stroke="#f97316" strokeWidth={1} strokeDasharray="3 2" pointerEvents="none" />}
+        <path d={curve} fill="none" stroke="#22d3ee" strokeWidth={1.5} pointerEvents="none" />
+
+        {playhead !== null && playhead <= duration && (
+          <line x1={x(playhead)} x2={x(playhead)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#f8fafc" pointerEvents="none" />
+        )}
+
+        {keyframes.map((k, i) => (
+          <circle
+            key={i}
+            cx={x(k.time)}
+            cy={y(k.throttle)}
+            r={i === index ? 4.5 : 3.5}
+            fill={k.throttle === 0 ? '#ef4444' : i === index ? '#f8fafc' : '#22d3ee'}
+            stroke="#0f172a"
+            className="cursor-grab"
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              svgRef.current?.setPointerCapture(e.pointerId);
+              setSelected(i);
+              setDragging(i);
+            }}
+          />
+        ))}
+      </svg>
+      <p className="text-[10px] text-gray-500 flex items-center gap-3">
+        <span><span className="text-cyan-400">━</span> commanded</span>
+        <span><span className="text-orange-500">┅</span> flown</span>
+        <span>Click to add a keyframe, drag to move it.</span>
+      </p>
+
+      {/* Selected keyframe */}
+      <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <label className="flex items-center gap-2 text-gray-400">
+            Keyframe at
+            <input
+              type="number"
+              min={0}
+              max={PROFILE_LIMITS.time.max}
+              step={PROFILE_LIMITS.time.step}
+              value={current.time}
+              disabled={disabled || index === 0}
+              onChange={(e) => updateKeyframe(index, { time: Math.round(parseFloat(e.target.value) || 0) })}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 font-mono text-white focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+            />
+            s
+          </label>
+          <span className="text-white font-mono">{current.throttle === 0 ? 'Cutoff' : `${Math.round(current.throttle * 100)}%`}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={THROTTLE_SNAP}
+          value={current.throttle}
+          disabled={disabled}
+          onChange={(e) => updateKeyframe(index, { throttle: parseFloat(e.target.value) })}
+          className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-50"
+        />
+        <div className="flex items-center gap-2 text-xs">
+          <div className="flex rounded overflow-hidden border border-slate-700" title="How the throttle gets to the next keyframe">
+            {([['Ramp', false], ['Hold', true]] as const).map(([label, hold]) => (
+              <button
+                key={label}
+                onClick={() => updateKeyframe(index, { hold })}
+                disabled={disabled}
+                className={`px-2 py-0.5 transition-colors ${current.hold === hold ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:bg-slate-800'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => updateKeyframe(index, { throttle: 0, hold: true })}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-0.5 rounded border border-red-500/50 text-red-300 hover:bg-red-500/20 disabled:opacity-30"
+          >
+            <Scissors className="w-3 h-3" /> Cut off
+          </button>
+          <button
+            onClick={() => removeKeyframe(index)}
+            disabled={disabled || index === 0}
+            className="ml-auto text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Remove keyframe"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Load limit */}
+      <div>
+        <div className="flex justify-between items-center text-xs mb-1">
+          <button
+            onClick={() => onChange({ ...profile, maxLoad: profile.maxLoad === null ? 4 : null })}
+            disabled={disabled}
+            className={`px-2 py-0.5 rounded border transition-colors ${profile.maxLoad !== null ? 'border-cyan-500 text-cyan-300' : 'border-slate-700 text-gray-400 hover:bg-slate-800'}`}
+          >
+            {profile.maxLoad !== null ? 'g-limit on' : 'g-limit off'}
+          </button>
+          {profile.maxLoad !== null && <span className="text-white font-mono">{profile.maxLoad} g</span>}
+        </div>
+        {profile.maxLoad !== null && (
+          <input
+            type="range"
+            min={PROFILE_LIMITS.maxLoad.min}
+            max={PROFILE_LIMITS.maxLoad.max}
+            step={PROFILE_LIMITS.maxLoad.step}
+            value={profile.maxLoad}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...profile, maxLoad: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500 disabled:opacity-50"
+          />
+        )}
+      </div>
+
+      {/* Presets and saved profiles */}
+      <div className="flex flex-wrap gap-1 text-[10px]">
+        {PRESET_PROFILES.map(({ name, profile: preset }) => (
+          <button
+            key={name}
+            onClick={() => loadProfile(preset)}
+            disabled={disabled}
+            className="px-2 py-0.5 rounded-full border border-slate-700 text-gray-300 hover:border-cyan-500 disabled:opacity-30"
+          >
+            {name}
+          </button>
+        ))}
+        {saved.map(({ name, profile: stored }) => (
+          <span key={name} className="flex items-center rounded-full border border-cyan-500/40 text-cyan-200">
+            <button onClick={() => loadProfile(stored)} disabled={disabled} className="pl-2 pr-1 py-0.5 hover:text-white disabled:opacity-30">
+              {name}
+            </button>
+            <button onClick={() => setSaved(deleteSavedProfile(saved, name))} className="pr-1.5 text-gray-500 hover:text-red-400" title="Delete saved profile">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Name this profile"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!saveName.trim()}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Save className="w-3 h-3" /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ThrottleProfileEditor;
@@ -0,0 +1,211 @@
+import React, { useRef, useState, useCallback, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Tour } from '../types';
+import { getBodyById, getMoons } from '../constants';
+import { ScaleMode, getFocusDistance } from '../services/sceneScale';
+import { loadTourFile, addSessionTour, getAvailableTours, getTourDuration } from '../services/tours';
+import { Play, Pause, SkipForward, SkipBack, X, Upload, Film } from 'lucide-react';
+
+// Longest camera flight between waypoints (seconds); the rest of a waypoint's time is spent tracking the body
+const MAX_FLIGHT_SECONDS = 4;
+// Height of the flight arc as a fraction of the distance flown
+const FLIGHT_ARC = 0.15;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+export interface TourPlayerState {
+  tour: Tour | null;
+  index: number;
+  playing: boolean;
+}
+
+// Tour playback state. Time within the current waypoint lives in a ref, advanced by the in-canvas camera.
+export const useTourPlayer = (onEnterWaypoint: (tour: Tour, index: number) => void) => {
+  const [state, setState] = useState<TourPlayerState>({ tour: null, index: 0, playing: false });
+  const elapsedRef = useRef(0);
+
+  const goTo = useCallback((tour: Tour, index: number) => {
+    elapsedRef.current = 0;
+    setState({ tour, index, playing: true });
+    onEnterWaypoint(tour, index);
+  }, [onEnterWaypoint]);
+
+  const start = useCallback((tour: Tour) => goTo(tour, 0), [goTo]);
+  const stop = useCallback(() => setState({ tour: null, index: 0, playing: false }), []);
+  const togglePause = useCallback(() => setState((s) => ({ ...s, playing: !s.playing })), []);
+
+  const next = useCallback(() => {
+    const { tour, index } = state;
+    if (!tour) return;
+    if (index + 1 < tour.waypoints.length) goTo(tour, index + 1);
+    else stop();
+  }, [state, goTo, stop]);
+
+  const prev = useCallback(() => {
+    const { tour, index } = state;
+    if (tour) goTo(tour, Math.max(0, index - 1));
+  }, [state, goTo]);
+
+  return { ...state, elapsedRef, start, stop, togglePause, next, prev };
+};
+
+// --- In-Canvas: flies the camera along the tour. Replaces CameraController while a tour plays. ---
+
+interface TourCameraProps {
+  tour: Tour;
+  index: number;
+  playing: boolean;
+  elapsedRef: React.MutableRefObject<number>;
+  scaleMode: ScaleMode;
+  bodyRefs: React.MutableRefObject<Record<string, THREE.Object3D>>;
+  onWaypointEnd: () => void;
+}
+
+export const TourCamera: React.FC<TourCameraProps> = ({ tour, index, playing, elapsedRef, scaleMode, bodyRefs, onWaypointEnd }) => {
+  const { camera } = useThree();
+  // Where the current leg started, so the flight eases from wherever the camera was
+  const leg = useRef<{ key: string; fromPos: THREE.Vector3; fromTarget: THREE.Vector3; ended: boolean } | null>(null);
+  const lookTarget = useRef<THREE.Vector3 | null>(null);
+  const bodyPos = useMemo(() => new THREE.Vector3(), []);
+  const goal = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state, delta) => {
+    if (state.gl.xr.isPresenting) return;
+    const waypoint = tour.waypoints[index];
+    const body = getBodyById(waypoint.target);
+    const object = bodyRefs.current[waypoint.target];
+    if (!body || !object) return;
+
+    if (!lookTarget.current) {
+      lookTarget.current = camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(10).add(camera.position);
+    }
+    const key = `${tour.id}:${index}`;
+    if (leg.current?.key !== key) {
+      leg.current = { key, fromPos: camera.position.clone(), fromTarget: lookTarget.current.clone(), ended: false };
+    }
+
+    if (playing) elapsedRef.current += delta;
+
+    object.getWorldPosition(bodyPos);
+    const distance = getFocusDistance(body, getMoons(body.id), scaleMode);
+    goal.fromArray(waypoint.offset).multiplyScalar(distance).add(bodyPos);
+
+    const flight = Math.min(MAX_FLIGHT_SECONDS, waypoint.duration * 0.5);
+    const t = easeInOutCubic(THREE.MathUtils.clamp(elapsedRef.current / flight, 0, 1));
+    const { fromPos, fromTarget } = leg.current;
+
+    camera.position.lerpVectors(fromPos, goal, t);
+    camera.position.y += Math.sin(Math.PI * t) * fromPos.distanceTo(goal) * FLIGHT_ARC;
+    lookTarget.current.lerpVectors(fromTarget, bodyPos, t);
+    camera.lookAt(lookTarget.current);
+
+    if (!leg.current.ended && elapsedRef.current >= waypoint.duration) {
+      leg.current.ended = true;
+      onWaypointEnd();
+    }
+  });
+
+  return null;
+};
+
+// --- DOM: caption with narration and playback controls ---
+
+interface TourCaptionProps {
+  tour: Tour;
+  index: number;
+  playing: boolean;
+  onTogglePause: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onStop: () => void;
+}
+
+export const TourCaption: React.FC<TourCaptionProps> = ({ tour, index, playing, onTogglePause, onNext, onPrev, onStop }) => {
+  const waypoint = tour.waypoints[index];
+  const body = getBodyById(waypoint.target);
+  const buttonClass = 'p-1.5 text-gray-400 hover:text-white transition-colors disabled:opacity-30';
+
+  return (
+    <div className="w-[36rem] max-w-[90vw] bg-black/80 border border-cyan-500/40 backdrop-blur-md rounded-sm p-4 text-white animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <p className="text-[10px] text-gray-500 uppercase tracking-widest">{tour.title} · {index + 1} / {tour.waypoints.length}</p>
+          <h3 className="text-lg font-bold text-cyan-400 brand-font">{body?.name}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onPrev} disabled={index === 0} className={buttonClass} title="Previous waypoint">
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={onTogglePause} className={buttonClass} title={playing ? 'Pause tour' : 'Resume tour'}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={onNext} className={buttonClass} title="Skip to next waypoint">
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button onClick={onStop} className={buttonClass} title="End tour">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-200 leading-relaxed">{waypoint.narration}</p>
+      <div className="flex gap-1 mt-3">
+        {tour.waypoints.map((_, i) => (
+          <div key={i} className={`h-1 flex-1 rounded-sm ${i < index ? 'bg-cyan-700' : i === index ? 'bg-cyan-400' : 'bg-gray-700'}`} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- DOM: pick a bundled tour or load one from a JSON file ---
+
+interface TourMenuProps {
+  onStart: (tour: Tour) => void;
+}
+
+export const TourMenu: React.FC<TourMenuProps> = ({ onStart }) => {
+  const [tours, setTours] = useState<Tour[]>(getAvailableTours);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addSessionTour(await loadTourFile(file));
+      setTours(getAvailableTours());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="w-64 border border-gray-700 bg-black/80 backdrop-blur-md rounded-sm p-2 flex flex-col gap-1">
+      {tours.map((tour) => (
+        <button
+          key={tour.id}
+          onClick={() => onStart(tour)}
+          className="text-left px-2 py-1.5 rounded-sm hover:bg-cyan-900/30 transition-colors"
+          title={tour.description}
+        >
+          <p className="text-xs text-cyan-300 font-bold flex items-center gap-1"><Film className="w-3 h-3" /> {tour.title}</p>
+          <p className="text-[10px] text-gray-500">
+            {tour.waypoints.length} stops · {Math.round(getTourDuration(tour) / 60 * 10) / 10} min
+          </p>
+        </button>
+      ))}
+      <button
+        onClick={() => fileRef.current?.click()}
+        className="px-2 py-1 text-[10px] uppercase tracking-wider text-gray-400 hover:text-white border border-dashed border-gray-700 rounded-sm flex items-center justify-center gap-1"
+        title="Load a tour written as JSON (see tours/grand-tour.json for the format)"
+      >
+        <Upload className="w-3 h-3" /> Load tour JSON
+      </button>
+      <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { CelestialBodyData } from '../types';
+import { SOLAR_SYSTEM_DATA } from '../constants';
+import { MS_PER_DAY, getScenePosition, projectToScene } from '../services/ephemeris';
+import { ScaleMode } from '../services/sceneScale';
+import {
+  TransferSolution,
+  PorkchopGrid,
+  computePorkchop,
+  getPorkchopCellDates,
+  getSynodicPeriodDays,
+  solveTransfer,
+  propagatePosition,
+} from '../services/transferPlanner';
+import { SimClock } from './SimulationClock';
+import { Loader, X, Navigation } from 'lucide-react';
+
+type PorkchopMetric = 'c3' | 'vInfArrival';
+
+const METRICS: { id: PorkchopMetric; label: string; unit: string }[] = [
+  { id: 'c3', label: 'Departure C3', unit: 'km²/s²' },
+  { id: 'vInfArrival', label: 'Arrival v∞', unit: 'km/s' },
+];
+
+// Bodies on heliocentric orbits can be transfer endpoints
+const TRANSFER_BODIES = SOLAR_SYSTEM_DATA.filter((body) => body.elements);
+
+const PLOT_WIDTH = 288;
+const PLOT_HEIGHT = 200;
+const COLOR_BANDS = 10;
+
+// Departure window: one synodic period, kept to a readable span for very slow or very fast pairs
+const getWindowDays = (departure: CelestialBodyData, arrival: CelestialBodyData) =>
+  THREE.MathUtils.clamp(getSynodicPeriodDays(departure, arrival), 120, 1200);
+
+// Banded colour scale from the grid minimum (blue) up to `cap` (red); values beyond it are left dark
+const bandColor = (value: number, min: number, cap: number): string | null => {
+  if (!Number.isFinite(value) || value > cap) return null;
+  const band = Math.min(COLOR_BANDS - 1, Math.floor(((value - min) / (cap - min)) * COLOR_BANDS));
+  const hue = 240 - (band / (COLOR_BANDS - 1)) * 240;
+  return `hsl(${hue}, 85%, 50%)`;
+};
+
+const formatDate = (timeMs: number) => new Date(timeMs).toISOString().slice(0, 10);
+
+// --- In-Canvas: transfer arc, endpoint markers and the spacecraft while it is en route ---
+
+interface TransferArcProps {
+  transfer: TransferSolution;
+  scaleMode: ScaleMode;
+  clockRef: React.MutableRefObject<SimClock>;
+}
+
+export const TransferArc: React.FC<TransferArcProps> = ({ transfer, scaleMode, clockRef }) => {
+  const craftRef = useRef<THREE.Mesh>(null);
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const fromDeparture = useMemo(() => new THREE.Vector3(), []);
+
+  const [departure, arrival] = useMemo(() => [
+    TRANSFER_BODIES.find((body) => body.id === transfer.departureBodyId)!,
+    TRANSFER_BODIES.find((body) => body.id === transfer.arrivalBodyId)!,
+  ], [transfer]);
+  const tofDays = (transfer.arrivalMs - transfer.departureMs) / MS_PER_DAY;
+
+  // The spacecraft's scene position a fraction of the way along the transfer. In the visual mode each planet's
+  // orbit has its own scale, so the arc blends from the departure body's to the arrival body's and meets both markers.
+  const projectAlongArc = (fraction: number, out: THREE.Vector3) => {
+    propagatePosition(transfer.r1, transfer.v1, fraction * tofDays, scratch);
+    projectToScene(departure, scratch, scaleMode, fromDeparture);
+    return projectToScene(arrival, scratch, scaleMode, out).lerp(fromDeparture, 1 - fraction);
+  };
+
+  const points = useMemo(
+    () => Array.from({ length: 129 }, (_, i) => projectAlongArc(i / 128, new THREE.Vector3())),
+    [transfer, scaleMode]
+  );
+
+  // Where the two bodies actually are on the departure and arrival dates
+  const endpoints = useMemo(() => [
+    getScenePosition(departure, new Date(transfer.departureMs), new THREE.Vector3(), scaleMode),
+    getScenePosition(arrival, new Date(transfer.arrivalMs), new THREE.Vector3(), scaleMode),
+  ], [departure, arrival, transfer, scaleMode]);
+
+  useFrame(() => {
+    const craft = craftRef.current;
+    if (!craft) return;
+    const timeMs = clockRef.current.timeMs;
+    craft.visible = timeMs >= transfer.departureMs && timeMs <= transfer.arrivalMs;
+    if (craft.visible) projectAlongArc((timeMs - transfer.departureMs) / (transfer.arrivalMs - transfer.departureMs), craft.position);
+  });
+
+  return (
+    <group>
+      <Line points={points} color="#f472b6" lineWidth={2} dashed dashSize={0.6} gapSize={0.3} />
+      {endpoints.map((position, i) => (
+        <mesh key={i} position={position} raycast={() => null}>
+          <torusGeometry args={[scaleMode === 'true' ? 0.05 : 1, scaleMode === 'true' ? 0.005 : 0.08, 8, 32]} />
+          <meshBasicMaterial color={i === 0 ? '#4ade80' : '#f472b6'} side={THREE.DoubleSide} />
+        </mesh>
+      ))}
+      <mesh ref={craftRef} visible={false} raycast={() => null}>
+        <octahedronGeometry args={[scaleMode === 'true' ? 0.02 : 0.4]} />
+        <meshBasicMaterial color="#ffffff" />
+      </mesh>
+    </group>
+  );
+};
+
+// --- DOM panel: body pickers, porkchop plot and the selected transfer ---
+
+interface TransferPlannerProps {
+  startTimeMs: number; // Departure window opens here (the current simulation date)
+  transfer: TransferSolution | null;
+  onSelectTransfer: (transfer: TransferSolution | null) => void;
+  onJumpToTime: (timeMs: number) => void;
+  onClose: () => void;
+}
+
+const TransferPlanner: React.FC<TransferPlannerProps> = ({ startTimeMs, transfer, onSelectTransfer, onJumpToTime, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [departureId, setDepartureId] = useState('earth');
+  const [arrivalId, setArrivalId] = useState('mars');
+  const [metric, setMetric] = useState<PorkchopMetric>('c3');
+  const [grid, setGrid] = useState<PorkchopGrid | null>(null);
+  const [computing, setComputing] = useState(false);
+  const [hover, setHover] = useState<{ col: number; row: number } | null>(null);
+
+  const metricInfo = METRICS.find((m) => m.id === metric)!;
+
+  const compute = () => {
+    const departure = TRANSFER_BODIES.find((body) => body.id === departureId)!;
+    const arrival = TRANSFER_BODIES.find((body) => body.id === arrivalId)!;
+    setComputing(true);
+    onSelectTransfer(null);
+    // Let the spinner paint before the grid blocks the main thread
+    setTimeout(() => {
+      setGrid(computePorkchop(departure, arrival, startTimeMs, getWindowDays(departure, arrival)));
+      setComputing(false);
+    }, 20);
+  };
+
+  // Colour range and optimum of the active metric
+  const range = useMemo(() => {
+    if (!grid) return null;
+    const values = grid[metric];
+    let min = Infinity, best = -1;
+    values.forEach((v, i) => {
+      if (v < min) { min = v; best = i; }
+    });
+    if (best < 0) return null;
+    return { min, cap: metric === 'c3' ? min * 5 : min * 3, best };
+  }, [grid, metric]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#030712';
+    ctx.fillRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+    if (!grid || !range) return;
+
+    const cellW = PLOT_WIDTH / grid.columns;
+    const cellH = PLOT_HEIGHT / grid.rows;
+    const values = grid[metric];
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.columns; col++) {
+        const color = bandColor(values[row * grid.columns + col], range.min, range.cap);
+        if (!color) continue;
+        ctx.fillStyle = color;
+        // Time of flight increases upward
+        ctx.fillRect(col * cellW, PLOT_HEIGHT - (row + 1) * cellH, cellW + 0.5, cellH + 0.5);
+      }
+    }
+
+    const markCell = (col: number, row: number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(col * cellW, PLOT_HEIGHT - (row + 1) * cellH, cellW, cellH);
+    };
+    markCell(range.best % grid.columns, Math.floor(range.best / grid.columns), '#ffffff');
+
+    if (transfer && transfer.departureBodyId === grid.departureBodyId && transfer.arrivalBodyId === grid.arrivalBodyId) {
+      const col = Math.round((transfer.departureMs - grid.departureStartMs) / MS_PER_DAY / grid.departureStepDays);
+      const tofDays = (transfer.arrivalMs - transfer.departureMs) / MS_PER_DAY;
+      markCell(col, Math.round((tofDays - grid.tofStartDays) / grid.tofStepDays), '#f472b6');
+    }
+  }, [grid, range, metric, transfer]);
+
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!grid) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * grid.columns);
+    const row = grid.rows - 1 - Math.floor(((e.clientY - rect.top) / rect.height) * grid.rows);
+    if (col < 0 || col >= grid.columns || row < 0 || row >= grid.rows) return null;
+    return { col, row };
+  };
+
+  const handlePlotClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    if (!grid || !cell) return;
+    const { departureMs, arrivalMs } = getPorkchopCellDates(grid, cell.col, cell.row);
+    const departure = TRANSFER_BODIES.find((body) => body.id === grid.departureBodyId)!;
+    const arrival = TRANSFER_BODIES.find((body) => body.id === grid.arrivalBodyId)!;
+    onSelectTransfer(solveTransfer(departure, arrival, departureMs, arrivalMs));
+  };
+
+  const hoverReadout = (() => {
+    if (!grid || !hover) return null;
+    const { departureMs, arrivalMs } = getPorkchopCellDates(grid, hover.col, hover.row);
+    const value = grid[metric][hover.row * grid.columns + hover.col];
+    return {
+      departure: formatDate(departureMs),
+      tof: Math.round((arrivalMs - departureMs) / MS_PER_DAY),
+      value: Number.isFinite(value) ? value.toFixed(2) : '—',
+    };
+  })();
+
+  const selectClass = 'flex-1 bg-gray-900 border border-gray-700 text-gray-200 text-xs px-2 py-1 rounded-sm';
+
+  return (
+    <div className="relative w-80 bg-black/90 border border-pink-500/50 backdrop-blur-lg p-4 text-white shadow-[0_0_30px_rgba(244,114,182,0.1)] rounded-sm">
+      <button onClick={onClose} className="absolute top-2 right-2 text-gray-500 hover:text-white transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+      <h3 className="text-sm font-bold text-pink-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+        <Navigation className="w-4 h-4" /> Mission Planner
+      </h3>
+
+      <div className="flex items-center gap-2 mb-2">
+        <select value={departureId} onChange={(e) => setDepartureId(e.target.value)} className={selectClass} title="Departure body">
+          {TRANSFER_BODIES.map((body) => <option key={body.id} value={body.id}>{body.name}</option>)}
+        </select>
+        <span className="text-gray-500 text-xs">→</span>
+        <select value={arrivalId} onChange={(e) => setArrivalId(e.target.value)} className={selectClass} title="Arrival body">
+          {TRANSFER_BODIES.map((body) => <option key={body.id} value={body.id}>{body.name}</option>)}
+        </select>
+      </div>
+
+      <button
+        onClick={compute}
+        disabled={computing || departureId === arrivalId}
+        className="w-full mb-3 px-3 py-1.5 border border-pink-500 bg-pink-900/20 text-pink-300 hover:bg-pink-500/20 text-xs uppercase tracking-wider rounded-sm disabled:opacity-40 flex items-center justify-center gap-2"
+      >
+        {computing ? <><Loader className="w-3 h-3 animate-spin" /> Solving Lambert grid...</> : `Porkchop from ${formatDate(startTimeMs)}`}
+      </button>
+
+      <div className="flex border border-gray-700 rounded-sm overflow-hidden mb-2">
+        {METRICS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setMetric(option.id)}
+            className={`flex-1 py-1 text-[10px] uppercase tracking-wider ${metric === option.id ? 'bg-pink-900/50 text-pink-300' : 'text-gray-400 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={PLOT_WIDTH}
+          height={PLOT_HEIGHT}
+          className="w-full border border-gray-700 cursor-crosshair"
+          onClick={handlePlotClick}
+          onMouseMove={(e) => setHover(cellAt(e))}
+          onMouseLeave={() => setHover(null)}
+        />
+        {!grid && !computing && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 px-6 text-center pointer-events-none">
+            Pick two bodies and solve the departure window starting at the current simulation date.
+          </p>
+        )}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+        <span>↑ time of flight</span>
+        <span>departure date →</span>
+      </div>
+
+      {grid && range && (
+        <div className="text-[10px] font-mono text-gray-400 mt-1">
+          {hoverReadout
+            ? <>Dep {hoverReadout.departure} · {hoverReadout.tof} d · {hoverReadout.value} {metricInfo.unit}</>
+            : <>Min {range.min.toFixed(2)} {metricInfo.unit} (white) · dark &gt; {range.cap.toFixed(1)}</>}
+        </div>
+      )}
+
+      {transfer && (
+        <div className="mt-3 pt-3 border-t border-gray-700 grid grid-cols-2 gap-2 text-xs">
+          <div>
+            <p className="text-gray-500">Depart</p>
+            <p className="font-mono text-green-400">{formatDate(transfer.departureMs)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Arrive</p>
+            <p className="font-mono text-pink-300">{formatDate(transfer.arrivalMs)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">C3</p>
+            <p className="font-mono text-cyan-300">{transfer.c3.toFixed(2)} km²/s²</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Arrival v∞</p>
+            <p className="font-mono text-cyan-300">{transfer.vInfArrival.toFixed(2)} km/s</p>
+          </div>
+          <button
+            onClick={() => onJumpToTime(transfer.departureMs)}
+            className="col-span-2 mt-1 px-3 py-1 border border-gray-700 text-gray-300 hover:border-pink-500 hover:text-pink-300 text-[10px] uppercase tracking-wider rounded-sm"
+          >
+            Jump clock to departure ({Math.round((transfer.arrivalMs - transfer.departureMs) / MS_PER_DAY)} day flight)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransferPlanner;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Ruler, Minus, Plus } from 'lucide-react';
+import { MAX_SIG_FIGS, MIN_SIG_FIGS, UNIT_SYSTEMS, setUnitPreferences, useUnitPreferences } from '../services/units';
+
+// Global unit system and precision switch, shown in every lab
+const UnitToggle: React.FC = () => {
+  const { system, sigFigs } = useUnitPreferences();
+
+  return (
+    <div className="fixed top-40 left-8 z-30 flex items-center gap-2 bg-black/50 px-3 py-2 rounded border border-cyan-500/30 backdrop-blur-sm text-xs">
+      <Ruler className="w-4 h-4 text-cyan-400" />
+      <div className="flex rounded overflow-hidden border border-slate-700">
+        {UNIT_SYSTEMS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setUnitPreferences({ system: option.id })}
+            className={`px-2 py-1 transition-colors ${system === option.id ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:bg-slate-800'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-1 text-gray-400" title="Significant figures">
+        <button onClick={() => setUnitPreferences({ sigFigs: sigFigs - 1 })} disabled={sigFigs <= MIN_SIG_FIGS} className="hover:text-white disabled:opacity-30">
+          <Minus className="w-3 h-3" />
+        </button>
+        <span className="font-mono text-white w-10 text-center">{sigFigs} s.f.</span>
+        <button onClick={() => setUnitPreferences({ sigFigs: sigFigs + 1 })} disabled={sigFigs >= MAX_SIG_FIGS} className="hover:text-white disabled:opacity-30">
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UnitToggle;
@@ -0,0 +1,362 @@
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { XRControllerModelFactory } from 'three-stdlib';
+import { CelestialBodyData, PlanetEngineeringInfo } from '../types';
+import { getBodyById } from '../constants';
+import { formatAtmosphere, formatGravity, formatPressure, formatTemperature } from '../services/engineeringSchema';
+
+// WebXR interaction for the solar system scene, built on three's own controller API so it runs on any
+// headset and in desktop WebXR emulators:
+//  - Trigger: select the body under the controller ray, or press a panel button
+//  - Grip: teleport next to the body under the ray, or a step along the ray into empty space
+//  - Thumbstick up/down: scale the world around your head
+// Locomotion moves and scales the world group rather than the viewer, since the XR camera is headset-driven.
+
+export interface VRLabLink {
+  label: string;
+  color: string;
+  onOpen: () => void;
+}
+
+// World scale on entering VR: 1 scene unit = 5 cm, so the visual-scale system fits in a room
+const VR_INITIAL_SCALE = 0.05;
+// Where the Sun sits relative to the viewer on entering VR (metres)
+const VR_INITIAL_OFFSET = new THREE.Vector3(0, 1.1, -2.5);
+const VR_MIN_SCALE = 0.0005;
+const VR_MAX_SCALE = 20;
+const VR_SCALE_RATE = 1.5; // Per second at full thumbstick deflection
+const VR_STEP_METERS = 2; // Grip into empty space
+const VR_ARRIVAL_DISTANCE = 1; // Teleport leaves the body this far in front of you (metres)
+const RAY_LENGTH = 10;
+
+const PANEL_WIDTH = 0.8;
+const PANEL_HEIGHT = 0.62;
+const PANEL_DISTANCE = 1.2;
+
+type VRAction = () => void;
+
+// --- In-world panel: selected body, its engineering data and lab shortcuts ---
+
+interface PanelButtonProps {
+  id: string;
+  label: string;
+  color: string;
+  position: [number, number, number];
+  width: number;
+  hovered: boolean;
+  onPress: VRAction;
+}
+
+const PanelButton: React.FC<PanelButtonProps> = ({ id, label, color, position, width, hovered, onPress }) => (
+  <group position={position}>
+    <mesh userData={{ vrAction: onPress, vrButtonId: id }}>
+      <planeGeometry args={[width, 0.07]} />
+      <meshBasicMaterial color={color} transparent opacity={hovered ? 0.6 : 0.25} />
+    </mesh>
+    <Text position={[0, 0, 0.002]} fontSize={0.026} color="#ffffff" anchorX="center" anchorY="middle">
+      {label}
+    </Text>
+  </group>
+);
+
+interface VRInfoPanelProps {
+  selectedBody: CelestialBodyData | null;
+  engInfo: PlanetEngineeringInfo | null;
+  loadingInfo: boolean;
+  labs: VRLabLink[];
+  hoveredButton: string | null;
+  onClose: VRAction;
+}
+
+const VRInfoPanel = React.forwardRef<THREE.Group, VRInfoPanelProps>(
+  ({ selectedBody, engInfo, loadingInfo, labs, hoveredButton, onClose }, ref) => {
+    let body: string;
+    if (!selectedBody) {
+      body = 'Trigger: select a body\nGrip: teleport to it\nThumbstick: scale the world\n\nOr open a lab below.';
+    } else if (loadingInfo || !engInfo) {
+      body = `${selectedBody.description}\n\nAnalyzing...`;
+    } else {
+      body = `Gravity: ${formatGravity(engInfo.surfaceGravity)}\nTemperature: ${formatTemperature(engInfo.meanTemperature)}\n`
+        + `Pressure: ${formatPressure(engInfo.surfacePressure)}\nAtmosphere: ${formatAtmosphere(engInfo.atmosphere)}\n\n"${engInfo.engineeringChallenge}"`;
+    }
+
+    const buttons = [
+      ...labs.map((lab, i) => ({ id: `lab-${i}`, label: lab.label, color: lab.color, onPress: lab.onOpen })),
+      ...(selectedBody ? [{ id: 'close', label: 'Close', color: '#6b7280', onPress: onClose }] : []),
+    ];
+    const buttonWidth = Math.min(0.2, (PANEL_WIDTH - 0.06) / Math.max(buttons.length, 1) - 0.015);
+
+    return (
+      <group ref={ref}>
+        <mesh>
+          <planeGeometry args={[PANEL_WIDTH, PANEL_HEIGHT]} />
+          <meshBasicMaterial color="#020617" transparent opacity={0.88} side={THREE.DoubleSide} />
+        </mesh>
+        <Text position={[-PANEL_WIDTH / 2 + 0.04, PANEL_HEIGHT / 2 - 0.05, 0.002]} fontSize={0.055} color="#22d3ee" anchorX="left" anchorY="top">
+          {selectedBody ? selectedBody.name : 'Aeroverse VR'}
+        </Text>
+        <Text position={[PANEL_WIDTH / 2 - 0.04, PANEL_HEIGHT / 2 - 0.06, 0.002]} fontSize={0.025} color="#6b7280" anchorX="right" anchorY="top">
+          {selectedBody ? selectedBody.type.toUpperCase() : 'SOLAR LAB'}
+        </Text>
+        <Text
+          position={[-PANEL_WIDTH / 2 + 0.04, PANEL_HEIGHT / 2 - 0.14, 0.002]}
+          fontSize={0.028}
+          lineHeight={1.3}
+          maxWidth={PANEL_WIDTH - 0.08}
+          color="#d1d5db"
+          anchorX="left"
+          anchorY="top"
+        >
+          {body}
+        </Text>
+        {buttons.map((button, i) => (
+          <PanelButton
+            key={button.id}
+            id={button.id}
+            label={button.label}
+            color={button.color}
+            width={buttonWidth}
+            position={[-PANEL_WIDTH / 2 + 0.03 + buttonWidth / 2 + i * (buttonWidth + 0.015), -PANEL_HEIGHT / 2 + 0.06, 0.002]}
+            hovered={hoveredButton === button.id}
+            onPress={button.onPress}
+          />
+        ))}
+      </group>
+    );
+  }
+);
+
+// --- Controllers, selection and locomotion ---
+
+interface VRControlsProps {
+  worldRef: React.RefObject<THREE.Group | null>;
+  bodyRefs: React.MutableRefObject<Record<string, THREE.Object3D>>;
+  selectedBody: CelestialBodyData | null;
+  engInfo: PlanetEngineeringInfo | null;
+  loadingInfo: boolean;
+  labs: VRLabLink[];
+  onSelect: (body: CelestialBodyData) => void;
+  onDeselect: () => void;
+}
+
+interface RayHit {
+  point: THREE.Vector3;
+  distance: number;
+  bodyId: string | null;
+  action: VRAction | null;
+  buttonId: string | null;
+}
+
+const VRControls: React.FC<VRControlsProps> = ({ worldRef, bodyRefs, selectedBody, engInfo, loadingInfo, labs, onSelect, onDeselect }) => {
+  const { gl, camera } = useThree();
+  const [presenting, setPresenting] = useState(false);
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null);
+  const panelRef = useRef<THREE.Group>(null);
+  const placePanel = useRef(true);
+
+  // Latest callbacks for the controller event listeners, which are bound once
+  const handlers = useRef({ onSelect, onDeselect });
+  handlers.current = { onSelect, onDeselect };
+
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+
+  const controllers = useMemo(() => {
+    const factory = new XRControllerModelFactory();
+    return [0, 1].map((index) => {
+      const controller = gl.xr.getController(index);
+      const grip = gl.xr.getControllerGrip(index);
+      grip.add(factory.createControllerModel(grip));
+
+      const ray = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -1)]),
+        new THREE.LineBasicMaterial({ color: '#22d3ee', transparent: true, opacity: 0.8 })
+      );
+      ray.scale.z = RAY_LENGTH;
+      ray.raycast = () => {}; // Never hit our own ray
+      controller.add(ray);
+
+      controller.addEventListener('connected', (event) => { controller.userData.inputSource = event.data; });
+      controller.addEventListener('disconnected', () => { controller.userData.inputSource = null; });
+      return { controller, grip, ray };
+    });
+  }, [gl]);
+
+  useEffect(() => {
+    const onStart = () => {
+      setPresenting(true);
+      placePanel.current = true;
+      const world = worldRef.current;
+      if (world) {
+        world.scale.setScalar(VR_INITIAL_SCALE);
+        world.position.copy(VR_INITIAL_OFFSET);
+      }
+    };
+    const onEnd = () => {
+      setPresenting(false);
+      const world = worldRef.current;
+      if (world) {
+        world.scale.setScalar(1);
+        world.position.set(0, 0, 0);
+      }
+    };
+    gl.xr.addEventListener('sessionstart', onStart);
+    gl.xr.addEventListener('sessionend', onEnd);
+    return () => {
+      gl.xr.removeEventListener('sessionstart', onStart);
+      gl.xr.removeEventListener('sessionend', onEnd);
+    };
+  }, [gl, worldRef]);
+
+  // Bring the panel back in front of the viewer whenever the selection changes
+  useEffect(() => {
+    placePanel.current = true;
+  }, [selectedBody]);
+
+  // What a controller's ray points at: panel buttons take priority over bodies
+  const castRay = (controller: THREE.Object3D): RayHit | null => {
+    const rotation = new THREE.Matrix4().extractRotation(controller.matrixWorld);
+    raycaster.ray.origin.setFromMatrixPosition(controller.matrixWorld);
+    raycaster.ray.direction.set(0, 0, -1).applyMatrix4(rotation);
+    raycaster.camera = camera;
+
+    if (panelRef.current) {
+      const panelHit = raycaster.intersectObject(panelRef.current, true)[0];
+      if (panelHit) {
+        const { vrAction, vrButtonId } = panelHit.object.userData;
+        return { point: panelHit.point, distance: panelHit.distance, bodyId: null, action: vrAction ?? null, buttonId: vrButtonId ?? null };
+      }
+    }
+
+    const refs = bodyRefs.current;
+    const owners = new Map<THREE.Object3D, string>(Object.entries(refs).map(([id, obj]) => [obj, id]));
+    for (const hit of raycaster.intersectObjects(Object.values(refs), true)) {
+      // Orbit lines inside a planet's group are not targets
+      const object = hit.object as THREE.Object3D & { isLine2?: boolean; isLineSegments2?: boolean };
+      if (!(object as THREE.Mesh).isMesh || object.isLine2 || object.isLineSegments2) continue;
+      // The nearest registered ancestor is the body (moons are nested inside their planet)
+      let node: THREE.Object3D | null = object;
+      while (node && !owners.has(node)) node = node.parent;
+      if (node) return { point: hit.point, distance: hit.distance, bodyId: owners.get(node)!, action: null, buttonId: null };
+    }
+    return null;
+  };
+
+  const headPosition = (out: THREE.Vector3) => out.setFromMatrixPosition(gl.xr.getCamera().matrixWorld);
+
+  // Horizontal gaze direction of the headset
+  const headForward = (out: THREE.Vector3) => {
+    out.set(0, 0, -1).applyQuaternion(gl.xr.getCamera().quaternion);
+    out.y = 0;
+    return out.lengthSq() > 1e-6 ? out.normalize() : out.set(0, 0, -1);
+  };
+
+  useEffect(() => {
+    const onTrigger = (event: { target: THREE.Object3D }) => {
+      const hit = castRay(event.target);
+      if (hit?.action) hit.action();
+      else if (hit?.bodyId) {
+        const body = getBodyById(hit.bodyId);
+        if (body) handlers.current.onSelect(body);
+      }
+    };
+
+    const onGrip = (event: { target: THREE.Object3D }) => {
+      const world = worldRef.current;
+      if (!world) return;
+      const hit = castRay(event.target);
+      const head = headPosition(new THREE.Vector3());
+
+      if (hit?.bodyId) {
+        // Move the world so the body ends up just in front of the viewer at eye level
+        const bodyPos = bodyRefs.current[hit.bodyId].getWorldPosition(new THREE.Vector3());
+        const target = head.clone().addScaledVector(headForward(new THREE.Vector3()), VR_ARRIVAL_DISTANCE);
+        world.position.add(target.sub(bodyPos));
+        const body = getBodyById(hit.bodyId);
+        if (body) handlers.current.onSelect(body);
+      } else if (!hit) {
+        // Step along the ray: the world moves the opposite way
+        world.position.addScaledVector(raycaster.ray.direction, -VR_STEP_METERS);
+      }
+    };
+
+    controllers.forEach(({ controller }) => {
+      controller.addEventListener('select', onTrigger);
+      controller.addEventListener('squeeze', onGrip);
+    });
+    return () => {
+      controllers.forEach(({ controller }) => {
+        controller.removeEventListener('select', onTrigger);
+        controller.removeEventListener('squeeze', onGrip);
+      });
+    };
+  }, [controllers, worldRef]);
+
+  useFrame((_, delta) => {
+    if (!presenting) return;
+    const world = worldRef.current;
+    const head = headPosition(new THREE.Vector3());
+
+    if (placePanel.current && panelRef.current) {
+      placePanel.current = false;
+      const forward = headForward(new THREE.Vector3());
+      panelRef.current.position.copy(head).addScaledVector(forward, PANEL_DISTANCE);
+      panelRef.current.position.y -= 0.15;
+      panelRef.current.lookAt(head.x, panelRef.current.position.y, head.z);
+    }
+
+    let hovered: string | null = null;
+    controllers.forEach(({ controller, ray }) => {
+      // Ray length shows what it touches
+      const hit = castRay(controller);
+      ray.scale.z = hit ? hit.distance : RAY_LENGTH;
+      if (hit?.buttonId) hovered = hit.buttonId;
+
+      // Thumbstick (xr-standard mapping: axes 2/3), falling back to a touchpad (axes 0/1)
+      const axes = (controller.userData.inputSource as XRInputSource | null)?.gamepad?.axes;
+      const y = axes ? (axes.length >= 4 ? axes[3] : axes[1] ?? 0) : 0;
+      if (world && Math.abs(y) > 0.15) {
+        const current = world.scale.x;
+        const next = THREE.MathUtils.clamp(current * Math.exp(-y * VR_SCALE_RATE * delta), VR_MIN_SCALE, VR_MAX_SCALE);
+        // Scale about the head so what you look at stays put
+        world.position.sub(head).multiplyScalar(next / current).add(head);
+        world.scale.setScalar(next);
+      }
+    });
+    if (hovered !== hoveredButton) setHoveredButton(hovered);
+  });
+
+  // Labs are flat pages, so leave the headset before opening one
+  const labLinks = labs.map((lab) => ({
+    ...lab,
+    onOpen: () => {
+      gl.xr.getSession()?.end();
+      lab.onOpen();
+    },
+  }));
+
+  if (!presenting) return null;
+
+  return (
+    <>
+      {controllers.map(({ controller, grip }, i) => (
+        <React.Fragment key={i}>
+          <primitive object={controller} />
+          <primitive object={grip} />
+        </React.Fragment>
+      ))}
+      <VRInfoPanel
+        ref={panelRef}
+        selectedBody={selectedBody}
+        engInfo={engInfo}
+        loadingInfo={loadingInfo}
+        labs={labLinks}
+        hoveredButton={hoveredButton}
+        onClose={onDeselect}
+      />
+    </>
+  );
+};
+
+export default VRControls;
@@ -1,15 +1,27 @@
 
-import { CelestialBodyData, SatelliteData } from './types';
+import { CelestialBodyData, SatelliteData, EngineeringReference, RocketEngineData, PropellantData } from './types';
 
-// Note: These scales are "visual" scales, not 1:1 realistic scales, to make the system viewable on a screen.
+// Note: `radius` and `distance` are "visual" scales, not 1:1 realistic scales, to make the system viewable on a screen.
+// `radiusKm` and the orbital elements are real, and drive the logarithmic and true scale modes.
+// The physical properties (mass, GM, gravity, rotation, albedo, atmosphere) are real too, and are the one source
+// every lab reads from, so a body added here is available everywhere.
+// Orbital elements are the JPL J2000 mean elements (Standish), good to within a degree or so for 1800-2050.
+// Dwarf planet elements (other than Pluto's) are osculating elements propagated back to J2000, so are approximate.
 export const SOLAR_SYSTEM_DATA: CelestialBodyData[] = [
   { 
     id: 'sun', 
     name: 'Sun', 
     color: '#FDB813', 
     radius: 5, 
+    radiusKm: 695700,
+    massKg: 1.9885e30,
+    gm: 132712440018,
+    equatorialRadiusKm: 695700,
+    surfaceGravity: 274,
+    rotationPeriodHours: 609.12,
+    albedo: null,
+    atmosphere: null,
     distance: 0, 
-    speed: 0, 
     description: 'The star at the center of our Solar System.', 
     type: 'star' 
   },
@@ -18,89 +30,672 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyData[] = [
     name: 'Mercury', 
     color: '#A5A5A5', 
     radius: 0.8, 
+    radiusKm: 2439.7,
+    massKg: 3.3011e23,
+    gm: 22031.87,
+    equatorialRadiusKm: 2440.5,
+    surfaceGravity: 3.7,
+    rotationPeriodHours: 1407.6,
+    albedo: 0.142,
+    atmosphere: null,
     distance: 10, 
-    speed: 4.7, 
     description: 'The smallest planet, closest to the Sun.', 
-    type: 'planet' 
+    type: 'planet',
+    elements: {
+      semiMajorAxis: 0.38709927,
+      eccentricity: 0.20563593,
+      inclination: 7.00497902,
+      longitudeOfAscendingNode: 48.33076593,
+      argumentOfPerihelion: 29.127,
+      meanAnomaly: 174.7925,
+    },
   },
   { 
     id: 'venus', 
     name: 'Venus', 
     color: '#E3BB76', 
     radius: 1.5, 
+    radiusKm: 6051.8,
+    massKg: 4.8675e24,
+    gm: 324858.59,
+    equatorialRadiusKm: 6051.8,
+    surfaceGravity: 8.87,
+    rotationPeriodHours: -5832.6,
+    albedo: 0.689,
+    atmosphere: { surfacePressure: 92, surfaceDensity: 65, scaleHeightKm: 15.9, meanMolarMass: 43.45 },
     distance: 15, 
-    speed: 3.5, 
     description: 'Second planet from the Sun. Hot and dense atmosphere.', 
-    type: 'planet' 
+    type: 'planet',
+    elements: {
+      semiMajorAxis: 0.72333566,
+      eccentricity: 0.00677672,
+      inclination: 3.39467605,
+      longitudeOfAscendingNode: 76.67984255,
+      argumentOfPerihelion: 54.9226,
+      meanAnomaly: 50.3766,
+    },
   },
   { 
     id: 'earth', 
     name: 'Earth', 
     color: '#22A6B3', 
     radius: 1.6, 
+    radiusKm: 6371.0,
+    massKg: 5.9722e24,
+    gm: 398600.44,
+    equatorialRadiusKm: 6378.137,
+    surfaceGravity: 9.81,
+    rotationPeriodHours: 23.9345,
+    albedo: 0.434,
+    atmosphere: { surfacePressure: 1.013, surfaceDensity: 1.225, scaleHeightKm: 8.5, meanMolarMass: 28.97 },
     distance: 22, 
-    speed: 3.0, 
     description: 'Our home planet.', 
     type: 'planet', 
-    moons: 1 
+    moons: 1,
+    elements: {
+      semiMajorAxis: 1.00000261,
+      eccentricity: 0.01671123,
+      inclination: -0.00001531,
+      longitudeOfAscendingNode: 0,
+      argumentOfPerihelion: 102.9377,
+      meanAnomaly: 357.5269,
+    },
   },
   { 
     id: 'mars', 
     name: 'Mars', 
     color: '#EB4D4B', 
     radius: 1.2, 
+    radiusKm: 3389.5,
+    massKg: 6.4171e23,
+    gm: 42828.37,
+    equatorialRadiusKm: 3396.2,
+    surfaceGravity: 3.72,
+    rotationPeriodHours: 24.6229,
+    albedo: 0.17,
+    atmosphere: { surfacePressure: 0.0064, surfaceDensity: 0.02, scaleHeightKm: 11.1, meanMolarMass: 43.34 },
     distance: 30, 
-    speed: 2.4, 
     description: 'The Red Planet. Target for colonization.', 
     type: 'planet', 
-    moons: 2 
+    moons: 2,
+    elements: {
+      semiMajorAxis: 1.52371034,
+      eccentricity: 0.0933941,
+      inclination: 1.84969142,
+      longitudeOfAscendingNode: 49.55953891,
+      argumentOfPerihelion: 286.4968,
+      meanAnomaly: 19.3902,
+    },
   },
   { 
     id: 'jupiter', 
     name: 'Jupiter', 
     color: '#D35400', 
     radius: 3.5, 
+    radiusKm: 69911,
+    massKg: 1.8982e27,
+    gm: 126686534,
+    equatorialRadiusKm: 71492,
+    surfaceGravity: 24.79,
+    rotationPeriodHours: 9.925,
+    albedo: 0.538,
+    atmosphere: { surfacePressure: 1, surfaceDensity: 0.16, scaleHeightKm: 27, meanMolarMass: 2.22 },
     distance: 45, 
-    speed: 1.3, 
     description: 'The largest planet. A gas giant.', 
     type: 'planet', 
-    moons: 79 
+    moons: 79,
+    elements: {
+      semiMajorAxis: 5.202887,
+      eccentricity: 0.04838624,
+      inclination: 1.30439695,
+      longitudeOfAscendingNode: 100.47390909,
+      argumentOfPerihelion: 274.2546,
+      meanAnomaly: 19.668,
+    },
   },
   { 
     id: 'saturn', 
     name: 'Saturn', 
     color: '#F1C40F', 
     radius: 3.0, 
+    radiusKm: 58232,
+    massKg: 5.6834e26,
+    gm: 37931187,
+    equatorialRadiusKm: 60268,
+    surfaceGravity: 10.44,
+    rotationPeriodHours: 10.656,
+    albedo: 0.499,
+    atmosphere: { surfacePressure: 1, surfaceDensity: 0.19, scaleHeightKm: 59.5, meanMolarMass: 2.07 },
     distance: 60, 
-    speed: 0.9, 
     description: 'Known for its prominent ring system.', 
     type: 'planet', 
-    moons: 82 
+    moons: 82,
+    elements: {
+      semiMajorAxis: 9.53667594,
+      eccentricity: 0.05386179,
+      inclination: 2.48599187,
+      longitudeOfAscendingNode: 113.66242448,
+      argumentOfPerihelion: 338.9365,
+      meanAnomaly: 317.3554,
+    },
   },
   { 
     id: 'uranus', 
     name: 'Uranus', 
     color: '#74B9FF', 
     radius: 2.2, 
+    radiusKm: 25362,
+    massKg: 8.681e25,
+    gm: 5793939,
+    equatorialRadiusKm: 25559,
+    surfaceGravity: 8.87,
+    rotationPeriodHours: -17.24,
+    albedo: 0.488,
+    atmosphere: { surfacePressure: 1, surfaceDensity: 0.42, scaleHeightKm: 27.7, meanMolarMass: 2.64 },
     distance: 75, 
-    speed: 0.6, 
     description: 'An ice giant with a tilted axis.', 
     type: 'planet', 
-    moons: 27 
+    moons: 27,
+    elements: {
+      semiMajorAxis: 19.18916464,
+      eccentricity: 0.04725744,
+      inclination: 0.77263783,
+      longitudeOfAscendingNode: 74.01692503,
+      argumentOfPerihelion: 96.9374,
+      meanAnomaly: 142.2838,
+    },
   },
   { 
     id: 'neptune', 
     name: 'Neptune', 
     color: '#0984E3', 
     radius: 2.1, 
+    radiusKm: 24622,
+    massKg: 1.02413e26,
+    gm: 6836529,
+    equatorialRadiusKm: 24764,
+    surfaceGravity: 11.15,
+    rotationPeriodHours: 16.11,
+    albedo: 0.442,
+    atmosphere: { surfacePressure: 1, surfaceDensity: 0.45, scaleHeightKm: 19.7, meanMolarMass: 2.53 },
     distance: 90, 
-    speed: 0.5, 
     description: 'The furthest known major planet.', 
     type: 'planet', 
-    moons: 14 
+    moons: 14,
+    elements: {
+      semiMajorAxis: 30.06992276,
+      eccentricity: 0.00859048,
+      inclination: 1.77004347,
+      longitudeOfAscendingNode: 131.78422574,
+      argumentOfPerihelion: 273.1805,
+      meanAnomaly: 259.9152,
+    },
+  },
+  {
+    id: 'ceres',
+    name: 'Ceres',
+    color: '#9E9A94',
+    radius: 0.45,
+    radiusKm: 469.7,
+    massKg: 9.3835e20,
+    gm: 62.63,
+    equatorialRadiusKm: 482.1,
+    surfaceGravity: 0.28,
+    rotationPeriodHours: 9.074,
+    albedo: 0.09,
+    atmosphere: null,
+    distance: 35,
+    description: 'The largest object in the asteroid belt, with bright salt deposits in Occator crater.',
+    type: 'dwarf',
+    elements: {
+      semiMajorAxis: 2.7675,
+      eccentricity: 0.0785,
+      inclination: 10.588,
+      longitudeOfAscendingNode: 80.27,
+      argumentOfPerihelion: 73.63,
+      meanAnomaly: 6.7,
+    },
+  },
+  {
+    id: 'pluto',
+    name: 'Pluto',
+    color: '#C9A27E',
+    radius: 0.5,
+    radiusKm: 1188.3,
+    massKg: 1.303e22,
+    gm: 869.6,
+    equatorialRadiusKm: 1188.3,
+    surfaceGravity: 0.62,
+    rotationPeriodHours: -153.29,
+    albedo: 0.52,
+    atmosphere: { surfacePressure: 1e-5, surfaceDensity: 8.4e-5, scaleHeightKm: 19, meanMolarMass: 28 },
+    distance: 103,
+    description: 'Dwarf planet in the Kuiper belt, locked in a 3:2 resonance with Neptune.',
+    type: 'dwarf',
+    moons: 5,
+    elements: {
+      semiMajorAxis: 39.48211675,
+      eccentricity: 0.2488273,
+      inclination: 17.14001206,
+      longitudeOfAscendingNode: 110.30393684,
+      argumentOfPerihelion: 113.76498,
+      meanAnomaly: 14.86012,
+    },
+  },
+  {
+    id: 'haumea',
+    name: 'Haumea',
+    color: '#D8D8D8',
+    radius: 0.4,
+    radiusKm: 780,
+    massKg: 4.006e21,
+    gm: 267.4,
+    equatorialRadiusKm: 1161,
+    surfaceGravity: 0.4,
+    rotationPeriodHours: 3.9155,
+    albedo: 0.51,
+    atmosphere: null,
+    distance: 108,
+    description: 'Fast-spinning, egg-shaped dwarf planet with its own ring.',
+    type: 'dwarf',
+    moons: 2,
+    elements: {
+      semiMajorAxis: 43.12,
+      eccentricity: 0.195,
+      inclination: 28.21,
+      longitudeOfAscendingNode: 121.8,
+      argumentOfPerihelion: 239.5,
+      meanAnomaly: 192.3,
+    },
+  },
+  {
+    id: 'makemake',
+    name: 'Makemake',
+    color: '#B5735A',
+    radius: 0.4,
+    radiusKm: 715,
+    massKg: 3.1e21,
+    gm: 206.9,
+    equatorialRadiusKm: 715,
+    surfaceGravity: 0.57,
+    rotationPeriodHours: 22.83,
+    albedo: 0.82,
+    atmosphere: null,
+    distance: 111,
+    description: 'Reddish Kuiper belt dwarf planet coated in frozen methane.',
+    type: 'dwarf',
+    moons: 1,
+    elements: {
+      semiMajorAxis: 45.43,
+      eccentricity: 0.161,
+      inclination: 28.98,
+      longitudeOfAscendingNode: 79.62,
+      argumentOfPerihelion: 294.8,
+      meanAnomaly: 141.5,
+    },
+  },
+  {
+    id: 'eris',
+    name: 'Eris',
+    color: '#E8E4DC',
+    radius: 0.5,
+    radiusKm: 1163,
+    massKg: 1.6466e22,
+    gm: 1099,
+    equatorialRadiusKm: 1163,
+    surfaceGravity: 0.82,
+    rotationPeriodHours: 378.9,
+    albedo: 0.96,
+    atmosphere: null,
+    distance: 142,
+    description: 'The most massive known dwarf planet, on a steeply inclined scattered-disk orbit.',
+    type: 'dwarf',
+    moons: 1,
+    elements: {
+      semiMajorAxis: 67.86,
+      eccentricity: 0.4361,
+      inclination: 44.04,
+      longitudeOfAscendingNode: 35.95,
+      argumentOfPerihelion: 151.64,
+      meanAnomaly: 192.85,
+    },
+  },
+];
+
+// Major moons, drawn orbiting their parent. `distance` and `radius` are visual; the orbit data is real.
+// Phases (except the Moon's) are illustrative, so only the Moon's position in its orbit matches the sky.
+export const MOON_DATA: CelestialBodyData[] = [
+  {
+    id: 'moon',
+    name: 'Moon',
+    color: '#C8C8C8',
+    radius: 0.4,
+    radiusKm: 1737.4,
+    massKg: 7.342e22,
+    gm: 4902.8,
+    equatorialRadiusKm: 1738.1,
+    surfaceGravity: 1.62,
+    rotationPeriodHours: 655.72,
+    albedo: 0.12,
+    atmosphere: null,
+    distance: 3.0,
+    description: 'Earth\'s only natural satellite (Luna). The only other world humans have walked on.',
+    type: 'moon',
+    parentId: 'earth',
+    moonOrbit: { semiMajorAxisKm: 384400, periodDays: 27.3217, inclination: 5.1, phase: 218.32 },
+  },
+  {
+    id: 'phobos',
+    name: 'Phobos',
+    color: '#8C7B6B',
+    radius: 0.15,
+    radiusKm: 11.27,
+    massKg: 1.0659e16,
+    gm: 7.11e-4,
+    equatorialRadiusKm: 13.0,
+    surfaceGravity: 0.0057,
+    rotationPeriodHours: 7.654,
+    albedo: 0.071,
+    atmosphere: null,
+    distance: 1.8,
+    description: 'The larger Martian moon, spiralling slowly inward toward Mars.',
+    type: 'moon',
+    parentId: 'mars',
+    moonOrbit: { semiMajorAxisKm: 9376, periodDays: 0.31891, inclination: 1.1, phase: 35 },
+  },
+  {
+    id: 'deimos',
+    name: 'Deimos',
+    color: '#A89A88',
+    radius: 0.12,
+    radiusKm: 6.2,
+    massKg: 1.4762e15,
+    gm: 9.85e-5,
+    equatorialRadiusKm: 7.5,
+    surfaceGravity: 0.003,
+    rotationPeriodHours: 30.31,
+    albedo: 0.068,
+    atmosphere: null,
+    distance: 2.5,
+    description: 'Small, smooth outer moon of Mars.',
+    type: 'moon',
+    parentId: 'mars',
+    moonOrbit: { semiMajorAxisKm: 23463, periodDays: 1.26244, inclination: 1.8, phase: 120 },
+  },
+  {
+    id: 'io',
+    name: 'Io',
+    color: '#E8D34B',
+    radius: 0.3,
+    radiusKm: 1821.6,
+    massKg: 8.9319e22,
+    gm: 5959.9,
+    equatorialRadiusKm: 1821.6,
+    surfaceGravity: 1.8,
+    rotationPeriodHours: 42.459,
+    albedo: 0.63,
+    atmosphere: null,
+    distance: 4.5,
+    description: 'The most volcanically active body in the Solar System.',
+    type: 'moon',
+    parentId: 'jupiter',
+    moonOrbit: { semiMajorAxisKm: 421700, periodDays: 1.769138, inclination: 0.05, phase: 200 },
+  },
+  {
+    id: 'europa',
+    name: 'Europa',
+    color: '#C9B79C',
+    radius: 0.28,
+    radiusKm: 1560.8,
+    massKg: 4.7998e22,
+    gm: 3202.7,
+    equatorialRadiusKm: 1560.8,
+    surfaceGravity: 1.31,
+    rotationPeriodHours: 85.228,
+    albedo: 0.67,
+    atmosphere: null,
+    distance: 5.2,
+    description: 'Ice-covered moon hiding a global saltwater ocean.',
+    type: 'moon',
+    parentId: 'jupiter',
+    moonOrbit: { semiMajorAxisKm: 671034, periodDays: 3.551181, inclination: 0.47, phase: 90 },
+  },
+  {
+    id: 'ganymede',
+    name: 'Ganymede',
+    color: '#9C8E7E',
+    radius: 0.4,
+    radiusKm: 2634.1,
+    massKg: 1.4819e23,
+    gm: 9887.8,
+    equatorialRadiusKm: 2634.1,
+    surfaceGravity: 1.43,
+    rotationPeriodHours: 171.709,
+    albedo: 0.43,
+    atmosphere: null,
+    distance: 6.0,
+    description: 'The largest moon in the Solar System, with its own magnetic field.',
+    type: 'moon',
+    parentId: 'jupiter',
+    moonOrbit: { semiMajorAxisKm: 1070412, periodDays: 7.154553, inclination: 0.2, phase: 300 },
+  },
+  {
+    id: 'callisto',
+    name: 'Callisto',
+    color: '#6E6259',
+    radius: 0.38,
+    radiusKm: 2410.3,
+    massKg: 1.0759e23,
+    gm: 7179.3,
+    equatorialRadiusKm: 2410.3,
+    surfaceGravity: 1.24,
+    rotationPeriodHours: 400.536,
+    albedo: 0.22,
+    atmosphere: null,
+    distance: 7.0,
+    description: 'Heavily cratered, ancient surface outside Jupiter\'s main radiation belts.',
+    type: 'moon',
+    parentId: 'jupiter',
+    moonOrbit: { semiMajorAxisKm: 1882709, periodDays: 16.689018, inclination: 0.19, phase: 10 },
+  },
+  {
+    id: 'enceladus',
+    name: 'Enceladus',
+    color: '#F2F4F5',
+    radius: 0.15,
+    radiusKm: 252.1,
+    massKg: 1.08e20,
+    gm: 7.21,
+    equatorialRadiusKm: 256.6,
+    surfaceGravity: 0.113,
+    rotationPeriodHours: 32.885,
+    albedo: 1.375,
+    atmosphere: null,
+    distance: 7.0,
+    description: 'Icy moon venting water plumes from its south pole.',
+    type: 'moon',
+    parentId: 'saturn',
+    moonOrbit: { semiMajorAxisKm: 237948, periodDays: 1.370218, inclination: 0.02, phase: 250 },
+  },
+  {
+    id: 'rhea',
+    name: 'Rhea',
+    color: '#BDB6AE',
+    radius: 0.22,
+    radiusKm: 763.8,
+    massKg: 2.3065e21,
+    gm: 153.9,
+    equatorialRadiusKm: 765,
+    surfaceGravity: 0.26,
+    rotationPeriodHours: 108.44,
+    albedo: 0.949,
+    atmosphere: null,
+    distance: 7.6,
+    description: 'Saturn\'s second-largest moon, a cold ball of ice and rock.',
+    type: 'moon',
+    parentId: 'saturn',
+    moonOrbit: { semiMajorAxisKm: 527108, periodDays: 4.518212, inclination: 0.35, phase: 60 },
+  },
+  {
+    id: 'titan',
+    name: 'Titan',
+    color: '#D9A441',
+    radius: 0.4,
+    radiusKm: 2574.7,
+    massKg: 1.3452e23,
+    gm: 8978.1,
+    equatorialRadiusKm: 2574.7,
+    surfaceGravity: 1.35,
+    rotationPeriodHours: 382.68,
+    albedo: 0.22,
+    atmosphere: { surfacePressure: 1.467, surfaceDensity: 5.4, scaleHeightKm: 21, meanMolarMass: 28.6 },
+    distance: 8.5,
+    description: 'Moon with a thick nitrogen atmosphere and methane lakes.',
+    type: 'moon',
+    parentId: 'saturn',
+    moonOrbit: { semiMajorAxisKm: 1221870, periodDays: 15.945421, inclination: 0.35, phase: 160 },
+  },
+  {
+    id: 'iapetus',
+    name: 'Iapetus',
+    color: '#8A7F70',
+    radius: 0.22,
+    radiusKm: 734.5,
+    massKg: 1.8056e21,
+    gm: 120.5,
+    equatorialRadiusKm: 746,
+    surfaceGravity: 0.22,
+    rotationPeriodHours: 1903.7,
+    albedo: 0.25,
+    atmosphere: null,
+    distance: 9.5,
+    description: 'Two-toned moon with one bright and one dark hemisphere.',
+    type: 'moon',
+    parentId: 'saturn',
+    moonOrbit: { semiMajorAxisKm: 3560820, periodDays: 79.3215, inclination: 15.47, phase: 330 },
+  },
+  {
+    id: 'miranda',
+    name: 'Miranda',
+    color: '#B4B4B4',
+    radius: 0.12,
+    radiusKm: 235.8,
+    massKg: 6.4e19,
+    gm: 4.27,
+    equatorialRadiusKm: 240.4,
+    surfaceGravity: 0.079,
+    rotationPeriodHours: 33.92,
+    albedo: 0.32,
+    atmosphere: null,
+    distance: 2.9,
+    description: 'Small Uranian moon with giant fault canyons.',
+    type: 'moon',
+    parentId: 'uranus',
+    moonOrbit: { semiMajorAxisKm: 129390, periodDays: 1.413479, inclination: 4.23, phase: 70 },
+  },
+  {
+    id: 'titania',
+    name: 'Titania',
+    color: '#B9AFA4',
+    radius: 0.22,
+    radiusKm: 788.4,
+    massKg: 3.4e21,
+    gm: 226.9,
+    equatorialRadiusKm: 788.4,
+    surfaceGravity: 0.37,
+    rotationPeriodHours: 208.94,
+    albedo: 0.35,
+    atmosphere: null,
+    distance: 3.6,
+    description: 'The largest moon of Uranus.',
+    type: 'moon',
+    parentId: 'uranus',
+    moonOrbit: { semiMajorAxisKm: 435910, periodDays: 8.705872, inclination: 0.08, phase: 190 },
+  },
+  {
+    id: 'oberon',
+    name: 'Oberon',
+    color: '#A59C93',
+    radius: 0.22,
+    radiusKm: 761.4,
+    massKg: 3.076e21,
+    gm: 205.3,
+    equatorialRadiusKm: 761.4,
+    surfaceGravity: 0.35,
+    rotationPeriodHours: 323.12,
+    albedo: 0.31,
+    atmosphere: null,
+    distance: 4.2,
+    description: 'Outermost major moon of Uranus, heavily cratered.',
+    type: 'moon',
+    parentId: 'uranus',
+    moonOrbit: { semiMajorAxisKm: 583520, periodDays: 13.463239, inclination: 0.07, phase: 280 },
+  },
+  {
+    id: 'triton',
+    name: 'Triton',
+    color: '#D8CFC8',
+    radius: 0.25,
+    radiusKm: 1353.4,
+    massKg: 2.139e22,
+    gm: 1427.6,
+    equatorialRadiusKm: 1353.4,
+    surfaceGravity: 0.78,
+    rotationPeriodHours: -141.04,
+    albedo: 0.76,
+    atmosphere: { surfacePressure: 1.4e-5, surfaceDensity: 1.2e-4, scaleHeightKm: 14.5, meanMolarMass: 28 },
+    distance: 3.0,
+    description: 'Captured Kuiper belt object on a retrograde orbit, with active nitrogen geysers.',
+    type: 'moon',
+    parentId: 'neptune',
+    moonOrbit: { semiMajorAxisKm: 354759, periodDays: -5.876854, inclination: 23.1, phase: 40 },
+  },
+  {
+    id: 'charon',
+    name: 'Charon',
+    color: '#9A928A',
+    radius: 0.2,
+    radiusKm: 606,
+    massKg: 1.586e21,
+    gm: 105.86,
+    equatorialRadiusKm: 606,
+    surfaceGravity: 0.29,
+    rotationPeriodHours: -153.29,
+    albedo: 0.38,
+    atmosphere: null,
+    distance: 1.3,
+    description: 'Half the size of Pluto; the pair orbit a point in open space between them.',
+    type: 'moon',
+    parentId: 'pluto',
+    moonOrbit: { semiMajorAxisKm: 19591, periodDays: -6.387221, inclination: 60.4, phase: 110 },
   },
 ];
 
+export const getMoons = (parentId: string): CelestialBodyData[] =>
+  MOON_DATA.filter((moon) => moon.parentId === parentId);
+
+// Every body in the catalog: the Sun, planets, dwarf planets and moons
+export const BODY_CATALOG: CelestialBodyData[] = [...SOLAR_SYSTEM_DATA, ...MOON_DATA];
+
+export const getBodyById = (id: string): CelestialBodyData | undefined =>
+  BODY_CATALOG.find((body) => body.id === id);
+
+export const getBodyByName = (name: string): CelestialBodyData | undefined => {
+  const lower = name.toLowerCase();
+  return BODY_CATALOG.find((body) => body.name.toLowerCase() === lower);
+};
+
+// Mean distance from the Sun (semi-major axis) in AU; moons share their parent's
+export const getSunDistanceAU = (body: CelestialBodyData): number => {
+  if (body.elements) return body.elements.semiMajorAxis;
+  const parent = body.parentId ? getBodyById(body.parentId) : undefined;
+  return parent?.elements?.semiMajorAxis ?? 0;
+};
+
+// Surface pressure in bar: zero for airless bodies, null for the Sun, which has no surface
+export const getSurfacePressure = (body: CelestialBodyData): number | null =>
+  body.type === 'star' ? null : body.atmosphere?.surfacePressure ?? 0;
+
 export const SATELLITE_EXAMPLES: SatelliteData[] = [
   {
     id: 'net-sat-1',
@@ -125,3 +720,289 @@ export const SATELLITE_EXAMPLES: SatelliteData[] = [
     }
   }
 ];
+
+// Propellant combinations for the Rocket Lab
+export const PROPELLANTS: PropellantData[] = [
+  {
+    id: 'rp1-lox',
+    name: 'RP-1/LOX',
+    fuel: 'RP-1 (refined kerosene)',
+    oxidizer: 'Liquid oxygen',
+    flameColor: '#f97316',
+    description: 'Dense and easy to store, so tanks stay small; burns with a bright, sooty orange flame.',
+  },
+  {
+    id: 'lh2-lox',
+    name: 'LH2/LOX',
+    fuel: 'Liquid hydrogen',
+    oxidizer: 'Liquid oxygen',
+    flameColor: '#bfdbfe',
+    description: 'The highest Isp of any chemical propellant, but hydrogen is so light the tanks are huge; the flame is almost invisible.',
+  },
+  {
+    id: 'methalox',
+    name: 'Methalox',
+    fuel: 'Liquid methane',
+    oxidizer: 'Liquid oxygen',
+    flameColor: '#6366f1',
+    description: 'Between kerosene and hydrogen in Isp and density, burns clean, and can be made from CO₂ and water on Mars.',
+  },
+  {
+    id: 'solid',
+    name: 'Solid (HTPB/AP)',
+    fuel: 'HTPB binder with aluminium powder',
+    oxidizer: null,
+    flameColor: '#fde68a',
+    description: 'Premixed and cast into the motor case: simple and powerful, but it cannot be throttled or shut down once lit.',
+  },
+  {
+    id: 'hypergolic',
+    name: 'NTO/UDMH (hypergolic)',
+    fuel: 'Unsymmetrical dimethylhydrazine',
+    oxidizer: 'Nitrogen tetroxide',
+    flameColor: '#fb7185',
+    description: 'Ignites on contact and stores at room temperature for years, but is highly toxic.',
+  },
+  {
+    id: 'xenon',
+    name: 'Xenon (ion)',
+    fuel: 'Xenon',
+    oxidizer: null,
+    flameColor: '#38bdf8',
+    description: 'Accelerated electrically rather than burned: a tiny thrust at ten times the Isp of any chemical rocket.',
+  },
+];
+
+export const getPropellantById = (id: string): PropellantData | undefined =>
+  PROPELLANTS.find((propellant) => propellant.id === id);
+
+// Engines for the Rocket Lab's stage designer, from published figures (rounded). Mass flow is at full thrust;
+// the sea-level and vacuum Isp give the thrust at any ambient pressure.
+export const ROCKET_ENGINES: RocketEngineData[] = [
+  { id: 'merlin-1d', name: 'Merlin 1D', propellantId: 'rp1-lox', massFlow: 306, seaLevelIsp: 282, vacuumIsp: 311, chamberPressure: 97, expansionRatio: 16, mixtureRatio: 2.36, mass: 470, minThrottle: 0.4 },
+  { id: 'raptor-2', name: 'Raptor 2', propellantId: 'methalox', massFlow: 703, seaLevelIsp: 327, vacuumIsp: 347, chamberPressure: 300, expansionRatio: 34, mixtureRatio: 3.6, mass: 1630, minThrottle: 0.4 },
+  { id: 'rs-25', name: 'RS-25', propellantId: 'lh2-lox', massFlow: 514, seaLevelIsp: 366, vacuumIsp: 452, chamberPressure: 206, expansionRatio: 69, mixtureRatio: 6.03, mass: 3177, minThrottle: 0.67 },
+  { id: 'rl10b-2', name: 'RL10B-2 (vacuum)', propellantId: 'lh2-lox', massFlow: 24.1, seaLevelIsp: null, vacuumIsp: 465.5, chamberPressure: 44, expansionRatio: 280, mixtureRatio: 5.88, mass: 301, minThrottle: 1 },
+  { id: 'rd-275m', name: 'RD-275M', propellantId: 'hypergolic', massFlow: 592, seaLevelIsp: 288, vacuumIsp: 315.8, chamberPressure: 165.5, expansionRatio: 26.2, mixtureRatio: 2.67, mass: 1070, minThrottle: 1 },
+  { id: 'gem-40', name: 'GEM 40 (solid motor)', propellantId: 'solid', massFlow: 187, seaLevelIsp: 245, vacuumIsp: 274, chamberPressure: 56, expansionRatio: 10.65, mixtureRatio: null, mass: 1315, minThrottle: 1 },
+  { id: 'nstar', name: 'NSTAR ion thruster', propellantId: 'xenon', massFlow: 3.03e-6, seaLevelIsp: null, vacuumIsp: 3100, chamberPressure: null, expansionRatio: null, mixtureRatio: null, mass: 8.2, minThrottle: 0.25 },
+];
+
+export const getEngineById = (id: string): RocketEngineData | undefined =>
+  ROCKET_ENGINES.find((engine) => engine.id === id);
+
+// Reference engineering data for every body. AI answers are checked against it, and the fixture provider
+// serves it directly (no network or API key needed), together with gravity and surface pressure from the catalog
+// above. Rounded figures in K; temperatures are at the surface, or at the 1 bar level for the giant planets.
+export const ENGINEERING_REFERENCE: Record<string, EngineeringReference> = {
+  sun: {
+    meanTemperature: 5772,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H', percent: 91.2 }, { gas: 'He', percent: 8.7 }],
+    engineeringChallenge: 'No surface to land on; probes need heat shields rated for over 1,000°C, like Parker Solar Probe.',
+  },
+  mercury: {
+    meanTemperature: 440,
+    minTemperature: 100,
+    maxTemperature: 700,
+    atmosphere: [],
+    engineeringChallenge: 'Day-night swings of 600°C and intense sunlight demand extreme thermal control.',
+  },
+  venus: {
+    meanTemperature: 737,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'CO2', percent: 96.5 }, { gas: 'N2', percent: 3.5 }],
+    engineeringChallenge: 'Crushing 92-bar pressure and 464°C heat destroy landers within hours.',
+  },
+  earth: {
+    meanTemperature: 288,
+    minTemperature: 184,
+    maxTemperature: 330,
+    atmosphere: [{ gas: 'N2', percent: 78.08 }, { gas: 'O2', percent: 20.95 }, { gas: 'Ar', percent: 0.93 }],
+    engineeringChallenge: 'Re-entry heating and weather constraints on launch and landing windows.',
+  },
+  mars: {
+    meanTemperature: 210,
+    minTemperature: 130,
+    maxTemperature: 308,
+    atmosphere: [{ gas: 'CO2', percent: 95.1 }, { gas: 'N2', percent: 2.6 }, { gas: 'Ar', percent: 1.9 }],
+    engineeringChallenge: 'Thin air makes slowing landers hard, and dust storms starve solar panels.',
+  },
+  jupiter: {
+    meanTemperature: 165,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H2', percent: 89.8 }, { gas: 'He', percent: 10.2 }],
+    engineeringChallenge: 'Intense radiation belts degrade electronics, and there is no solid surface to land on.',
+  },
+  saturn: {
+    meanTemperature: 134,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H2', percent: 96.3 }, { gas: 'He', percent: 3.25 }],
+    engineeringChallenge: 'No solid surface, and ring particles are an impact hazard for orbiters.',
+  },
+  uranus: {
+    meanTemperature: 76,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H2', percent: 82.5 }, { gas: 'He', percent: 15.2 }, { gas: 'CH4', percent: 2.3 }],
+    engineeringChallenge: 'Long cruise times and faint sunlight require nuclear power and long-lived hardware.',
+  },
+  neptune: {
+    meanTemperature: 72,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H2', percent: 80 }, { gas: 'He', percent: 19 }, { gas: 'CH4', percent: 1.5 }],
+    engineeringChallenge: 'Winds up to 2,100 km/h and four-hour signal delays demand autonomy.',
+  },
+  ceres: {
+    meanTemperature: 168,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Very weak gravity makes landing and anchoring equipment to the surface difficult.',
+  },
+  pluto: {
+    meanTemperature: 44,
+    minTemperature: 33,
+    maxTemperature: 55,
+    atmosphere: [{ gas: 'N2', percent: 99 }, { gas: 'CH4', percent: 0.5 }, { gas: 'CO', percent: 0.05 }],
+    engineeringChallenge: 'Dim sunlight and -229°C cold require radioisotope power and heated electronics.',
+  },
+  haumea: {
+    meanTemperature: 32,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Four-hour rotation stretches it into an ellipsoid, complicating orbits and landings.',
+  },
+  makemake: {
+    meanTemperature: 34,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Over 45 AU away: a flyby mission would take more than 15 years.',
+  },
+  eris: {
+    meanTemperature: 42,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'The most distant known dwarf planet, with very long transit times and faint sunlight.',
+  },
+  moon: {
+    meanTemperature: 253,
+    minTemperature: 100,
+    maxTemperature: 400,
+    atmosphere: [],
+    engineeringChallenge: 'Abrasive, electrostatically charged regolith dust jams mechanisms and wears seals.',
+  },
+  phobos: {
+    meanTemperature: 233,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Microgravity means landers must anchor or risk bouncing off the surface.',
+  },
+  deimos: {
+    meanTemperature: 233,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Escape velocity of 5.6 m/s: a careless push can launch equipment into space.',
+  },
+  io: {
+    meanTemperature: 130,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'SO2', percent: 90 }],
+    engineeringChallenge: 'Extreme Jovian radiation and active volcanism threaten surface hardware.',
+  },
+  europa: {
+    meanTemperature: 110,
+    minTemperature: 50,
+    maxTemperature: 125,
+    atmosphere: [{ gas: 'O2', percent: 100 }],
+    engineeringChallenge: 'Reaching the ocean means drilling kilometres of ice under intense radiation.',
+  },
+  ganymede: {
+    meanTemperature: 110,
+    minTemperature: 70,
+    maxTemperature: 152,
+    atmosphere: [{ gas: 'O2', percent: 100 }],
+    engineeringChallenge: 'Jupiter\'s radiation and deep cold demand heavily shielded, heated systems.',
+  },
+  callisto: {
+    meanTemperature: 134,
+    minTemperature: 80,
+    maxTemperature: 165,
+    atmosphere: [{ gas: 'CO2', percent: 100 }],
+    engineeringChallenge: 'Weak sunlight limits solar power, and the cold embrittles materials.',
+  },
+  enceladus: {
+    meanTemperature: 75,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'H2O', percent: 91 }, { gas: 'N2', percent: 4 }, { gas: 'CO2', percent: 3.2 }, { gas: 'CH4', percent: 1.7 }],
+    engineeringChallenge: 'Sampling plumes at high speed without damaging instruments, then landing in very low gravity.',
+  },
+  rhea: {
+    meanTemperature: 99,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'O2', percent: 70 }, { gas: 'CO2', percent: 30 }],
+    engineeringChallenge: 'Icy cold and low gravity complicate anchoring and thermal management.',
+  },
+  titan: {
+    meanTemperature: 94,
+    minTemperature: 90,
+    maxTemperature: 94,
+    atmosphere: [{ gas: 'N2', percent: 95 }, { gas: 'CH4', percent: 4.9 }],
+    engineeringChallenge: 'Thick haze and methane rain at -179°C; aircraft like Dragonfly must fly in extreme cold.',
+  },
+  iapetus: {
+    meanTemperature: 130,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'A 20 km equatorial ridge and two-tone terrain complicate landing site selection.',
+  },
+  miranda: {
+    meanTemperature: 86,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Cliffs up to 20 km high and very low gravity make surface operations treacherous.',
+  },
+  titania: {
+    meanTemperature: 70,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Over 19 AU from the Sun, solar power is impractical and the cold is extreme.',
+  },
+  oberon: {
+    meanTemperature: 75,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Deep cold and a 2.6-hour one-way light time demand fully autonomous operations.',
+  },
+  triton: {
+    meanTemperature: 38,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [{ gas: 'N2', percent: 99.9 }, { gas: 'CH4', percent: 0.02 }],
+    engineeringChallenge: 'One of the coldest surfaces known, with active nitrogen geysers.',
+  },
+  charon: {
+    meanTemperature: 53,
+    minTemperature: null,
+    maxTemperature: null,
+    atmosphere: [],
+    engineeringChallenge: 'Extreme distance and cold; missions rely on radioisotope power for decades.',
+  },
+};
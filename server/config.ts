@@ -0,0 +1,42 @@
+import { existsSync } from 'node:fs';
+import { EnvValues, LocalModelConfig, readLocalModelConfig } from '../services/engineeringProvider';
+
+export interface ProxyConfig extends LocalModelConfig {
+  provider: 'gemini' | 'local' | 'fixture';
+  geminiApiKey: string;
+  port: number;
+  rateLimitPerMinute: number; // Per client address
+  logFile: string | null; // JSON lines usage log, in addition to stdout
+}
+
+// Same .env.local as the front end; variables already set in the shell take precedence
+export const loadEnvFiles = () => {
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+};
+
+const readInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// `--mock` forces the fixture provider, for front-end work without a key or network
+export const readProxyConfig = (env: EnvValues, argv: string[]): ProxyConfig => {
+  const geminiApiKey = env.GEMINI_API_KEY || '';
+  const requested = (env.PROXY_PROVIDER || '').toLowerCase();
+  const provider = argv.includes('--mock')
+    ? 'fixture'
+    : requested === 'gemini' || requested === 'local' || requested === 'fixture'
+      ? requested
+      : geminiApiKey ? 'gemini' : 'fixture';
+
+  return {
+    provider,
+    geminiApiKey,
+    port: readInt(env.PROXY_PORT, 8787),
+    rateLimitPerMinute: readInt(env.PROXY_RATE_LIMIT, 30),
+    logFile: env.PROXY_LOG_FILE === 'off' ? null : env.PROXY_LOG_FILE || 'logs/proxy-usage.log',
+    ...readLocalModelConfig(env),
+  };
+};
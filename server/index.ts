@@ -0,0 +1,265 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { EngineeringDataProvider } from '../services/engineeringProvider';
+import { createGeminiProvider, createGeminiChatProvider, createGeminiReportProvider } from '../services/geminiProvider';
+import { createLocalModelProvider, createLocalChatProvider, createLocalReportProvider } from '../services/localModelProvider';
+import { createFixtureProvider, createFixtureChatProvider, createFixtureReportProvider } from '../services/fixtureProvider';
+import { ChatMessage, LabChatProvider, MAX_CHAT_MESSAGES, MAX_CHAT_MESSAGE_LENGTH } from '../services/labChat';
+import { LabReportProvider, validateExperimentRecord } from '../services/labReport';
+import { isAbortError, isTransientError, withRetry } from '../services/requestControl';
+import { getBodyByName } from '../constants';
+import { ProxyConfig, loadEnvFiles, readProxyConfig } from './config';
+import { createRateLimiter } from './rateLimiter';
+import { UsageRecord, createUsageLog } from './usageLog';
+
+// Lab proxy: the only place the Gemini key lives. The browser asks it for engineering data by body
+// name, for "Ask the Lab" chat replies and for lab report write-ups; it enforces per-client rate limits and logs every request.
+//   npm run proxy        (Gemini, local model or fixtures, per PROXY_PROVIDER / GEMINI_API_KEY)
+//   npm run proxy:mock   (fixtures only, no key or network)
+
+const createProvider = (config: ProxyConfig): EngineeringDataProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config.geminiApiKey);
+    case 'local':
+      return createLocalModelProvider(config);
+    default:
+      return createFixtureProvider();
+  }
+};
+
+const createChatProvider = (config: ProxyConfig): LabChatProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiChatProvider(config.geminiApiKey);
+    case 'local':
+      return createLocalChatProvider(config);
+    default:
+      return createFixtureChatProvider();
+  }
+};
+
+const createReportProvider = (config: ProxyConfig): LabReportProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiReportProvider(config.geminiApiKey);
+    case 'local':
+      return createLocalReportProvider(config);
+    default:
+      return createFixtureReportProvider();
+  }
+};
+
+// Largest accepted request body
+const MAX_BODY_BYTES = 64 * 1024;
+
+loadEnvFiles();
+const config = readProxyConfig(process.env, process.argv.slice(2));
+const provider = createProvider(config);
+const chatProvider = createChatProvider(config);
+const reportProvider = createReportProvider(config);
+const rateLimiter = createRateLimiter(config.rateLimitPerMinute);
+const logUsage = createUsageLog(config.logFile);
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// The browser's address. Requests forwarded by the Vite server on this machine all come from loopback, so there
+// the address it appended to X-Forwarded-For is used; anyone else could forge the header, so it is ignored.
+const clientAddress = (req: IncomingMessage) => {
+  const peer = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!LOOPBACK.has(peer) || typeof forwarded !== 'string') return peer;
+  return forwarded.split(',').pop()!.trim() || peer;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Answers 429 and returns null when the client is over its limit
+const takeRateLimit = (res: ServerResponse, record: UsageRecord) => {
+  const limit = rateLimiter.take(record.client);
+  if (limit.allowed) return limit;
+  sendJson(res, 429, { error: `Rate limit of ${config.rateLimitPerMinute} requests per minute exceeded` },
+    { 'Retry-After': String(limit.retryAfterSeconds) });
+  return null;
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const parseChatRequest = (data: unknown): { messages: ChatMessage[]; context: string } => {
+  const body = (data ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(body.messages) || body.messages.length === 0 || body.messages.length > MAX_CHAT_MESSAGES) {
+    throw new Error(`messages must be a list of 1 to ${MAX_CHAT_MESSAGES} entries`);
+  }
+  const messages = body.messages.map((item): ChatMessage => {
+    const m = (item ?? {}) as Record<string, unknown>;
+    if ((m.role !== 'user' && m.role !== 'assistant') || typeof m.content !== 'string' || m.content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`Each message needs a user/assistant role and up to ${MAX_CHAT_MESSAGE_LENGTH} characters of content`);
+    }
+    return { role: m.role, content: m.content };
+  }).filter((m) => m.content.trim()); // Gemini rejects empty turns, such as a reply the student stopped before it began
+  if (messages.length === 0) throw new Error('messages must not all be empty');
+  const context = typeof body.context === 'string' ? body.context.slice(0, MAX_CHAT_MESSAGE_LENGTH) : '';
+  return { messages, context };
+};
+
+const handlePlanetInfo = async (req: IncomingMessage, res: ServerResponse, url: URL, record: UsageRecord) => {
+  const name = url.searchParams.get('name')?.trim() ?? '';
+  record.body = name;
+
+  const limit = takeRateLimit(res, record);
+  if (!limit) return;
+
+  // Only known bodies are forwarded, so the proxy cannot be used as a general-purpose prompt endpoint
+  const body = getBodyByName(name);
+  if (!body) {
+    sendJson(res, name ? 404 : 400, { error: name ? `Unknown body "${name}"` : 'Missing ?name= parameter' });
+    return;
+  }
+
+  // Stop paying for an answer nobody is waiting for
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const info = await withRetry((signal) => provider.getEngineeringData(body.name, signal), { signal: controller.signal });
+    sendJson(res, 200, { info, provider: provider.id, model: provider.model }, { 'X-RateLimit-Remaining': String(limit.remaining) });
+  } catch (error) {
+    if (isAbortError(error)) {
+      record.error = 'Client disconnected';
+      res.statusCode = 499;
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    record.error = message;
+    sendJson(res, isTransientError(error) ? 503 : 502, { error: `${provider.label} request failed: ${message}` });
+  }
+};
+
+const handleChat = async (req: IncomingMessage, res: ServerResponse, record: UsageRecord) => {
+  if (!takeRateLimit(res, record)) return;
+
+  let request: { messages: ChatMessage[]; context: string };
+  try {
+    request = parseChatRequest(await readJsonBody(req));
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    for await (const text of chatProvider.streamReply(request.messages, request.context, controller.signal)) {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.write(text);
+    }
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    record.error = isAbortError(error) ? 'Client disconnected' : message;
+    if (isAbortError(error)) {
+      res.statusCode = 499;
+    } else if (!res.headersSent) {
+      sendJson(res, isTransientError(error) ? 503 : 502, { error: `${chatProvider.label} request failed: ${message}` });
+    } else {
+      // Already streaming: all we can do is say so at the end of the text
+      res.end(`\n\n[The answer was cut off: ${message}]`);
+    }
+  }
+};
+
+const handleReport = async (req: IncomingMessage, res: ServerResponse, record: UsageRecord) => {
+  const limit = takeRateLimit(res, record);
+  if (!limit) return;
+
+  let experiment;
+  try {
+    const body = (await readJsonBody(req)) as { experiment?: unknown } | null;
+    experiment = validateExperimentRecord(body?.experiment);
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  record.body = experiment.title;
+  record.provider = reportProvider.id;
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const report = await withRetry((signal) => reportProvider.writeReport(experiment, signal), { signal: controller.signal });
+    sendJson(res, 200, { report, provider: reportProvider.id }, { 'X-RateLimit-Remaining': String(limit.remaining) });
+  } catch (error) {
+    if (isAbortError(error)) {
+      record.error = 'Client disconnected';
+      res.statusCode = 499;
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    record.error = message;
+    sendJson(res, isTransientError(error) ? 503 : 502, { error: `${reportProvider.label} request failed: ${message}` });
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const record: UsageRecord = {
+    time: new Date(started).toISOString(),
+    client: clientAddress(req),
+    method: req.method ?? 'GET',
+    path: url.pathname,
+    status: 0,
+    durationMs: 0,
+    provider: provider.id,
+  };
+
+  try {
+    if (url.pathname === '/api/chat' || url.pathname === '/api/report') {
+      if (req.method !== 'POST') sendJson(res, 405, { error: 'Use POST' }, { Allow: 'POST' });
+      else if (url.pathname === '/api/chat') await handleChat(req, res, record);
+      else await handleReport(req, res, record);
+    } else if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Only GET is supported' }, { Allow: 'GET' });
+    } else if (url.pathname === '/api/planet-info') {
+      await handlePlanetInfo(req, res, url, record);
+    } else if (url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, provider: provider.id, model: provider.model });
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal proxy error' });
+  } finally {
+    record.status = res.statusCode;
+    record.durationMs = Date.now() - started;
+    logUsage(record);
+  }
+});
+
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+server.listen(config.port, () => {
+  console.log(`Lab proxy on http://localhost:${config.port} using ${provider.label} (${provider.model}), `
+    + `${config.rateLimitPerMinute} requests/min per client`);
+});
@@ -0,0 +1,43 @@
+// Token bucket per client: `limit` requests per minute, refilled continuously, so short bursts
+// (a class clicking through the planets) pass while sustained scraping is throttled.
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+const WINDOW_MS = 60_000;
+// Buckets idle this long are full again and can be forgotten
+const IDLE_MS = 10 * WINDOW_MS;
+
+export const createRateLimiter = (limit: number) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / WINDOW_MS;
+
+  const take = (client: string, now = Date.now()): RateLimitResult => {
+    const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  };
+
+  const prune = (now = Date.now()) => {
+    for (const [client, bucket] of buckets) {
+      if (now - bucket.updatedAt > IDLE_MS) buckets.delete(client);
+    }
+  };
+
+  return { take, prune };
+};
@@ -0,0 +1,28 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface UsageRecord {
+  time: string;
+  client: string;
+  method: string;
+  path: string;
+  body?: string; // Requested body name, for /api/planet-info
+  status: number;
+  durationMs: number;
+  provider?: string;
+  error?: string;
+}
+
+// One JSON line per request on stdout and, when configured, appended to a file for later review
+export const createUsageLog = (file: string | null) => {
+  let ready: Promise<unknown> | null = file ? mkdir(dirname(file), { recursive: true }) : null;
+
+  return (record: UsageRecord) => {
+    const line = JSON.stringify(record);
+    console.log(line);
+    if (!file || !ready) return;
+    ready = ready
+      .then(() => appendFile(file, `${line}\n`))
+      .catch((error) => console.warn(`Could not write usage log ${file}:`, error));
+  };
+};
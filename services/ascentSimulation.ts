@@ -0,0 +1,246 @@
+import { CelestialBodyData } from '../types';
+
+// Time-stepped vertical ascent: thrust rising as the air thins and following the throttle schedule, mass falling as
+// propellant burns, gravity weakening with altitude and drag in an exponential atmosphere. Integrated with semi-implicit Euler steps, which is stable and
+// accurate enough at this step size for a classroom trajectory.
+
+export interface AscentStage {
+  dryMass: number; // kg, dropped with the stage at separation
+  propellantMass: number; // kg
+  flowRate: number; // kg/s
+  exhaustVelocity: number; // m/s, effective in vacuum
+  exitArea: number; // m², all nozzles; ambient pressure on it cuts thrust: F = ṁ·vₑ − pₐ·Aₑ
+  minThrottle: number; // Deepest throttle; 1 for engines that only run flat out
+  canShutDown: boolean; // false for solid motors, which burn until empty whatever the schedule says
+}
+
+export interface ThrottleSchedule {
+  command: (time: number) => number; // Requested share of full thrust at a time after launch, 0 for engines off
+  end: number; // s; the command doesn't change after this, so an engines-off coast is final
+  maxLoad: number | null; // m/s², cap on the felt acceleration (thrust and drag over mass)
+}
+
+export interface AscentVehicle {
+  stages: AscentStage[]; // Bottom stage first; each ignites as the one below separates
+  dragCoefficient: number;
+  referenceArea: number; // m², frontal area
+  throttle?: ThrottleSchedule; // Full throttle throughout when left out
+}
+
+export interface AscentSample {
+  time: number; // s
+  altitude: number; // m
+  velocity: number; // m/s, positive upwards
+  acceleration: number; // m/s²
+  mass: number; // kg
+  thrust: number; // N
+  throttle: number; // Share of the firing stage's full thrust, 0 with the engines off
+  drag: number; // N, opposing the motion
+  gravity: number; // m/s² at this altitude
+  dynamicPressure: number; // Pa
+  stage: number; // Index of the stage firing (or, after the last burnout, still attached)
+}
+
+export type AscentOutcome = 'grounded' | 'landed' | 'apogee' | 'escape' | 'timeout';
+
+export interface AscentEvent {
+  time: number;
+  altitude: number;
+  velocity: number;
+}
+
+export interface StagingEvent extends AscentEvent {
+  stage: number; // Index of the stage dropped
+  mass: number; // kg left after the drop: the next stage's mass at ignition
+}
+
+export interface AscentResult {
+  samples: AscentSample[];
+  outcome: AscentOutcome;
+  liftoff: AscentEvent | null; // null when thrust never exceeds weight
+  separations: StagingEvent[];
+  burnout: AscentEvent; // The final engine cutoff, whether the tanks ran dry or the schedule shut them down
+  maxQ: AscentEvent & { dynamicPressure: number };
+  maxLoad: AscentEvent & { load: number }; // Highest felt acceleration in m/s², which the crew would feel as g-force
+  apogee: AscentEvent; // Highest point reached (the final point for an escape or timeout)
+}
+
+const TIME_STEP = 0.05; // s
+const STEPS_PER_SAMPLE = 10; // Samples are recorded every 0.5 s
+const SAMPLE_INTERVAL = TIME_STEP * STEPS_PER_SAMPLE;
+const MAX_STEPS = 3600 / TIME_STEP; // Long burns and coasts are cut off after an hour
+
+const bodyConstants = (body: CelestialBodyData) => ({
+  gm: body.gm * 1e9, // km³/s² -> m³/s²
+  radius: body.equatorialRadiusKm * 1000,
+  density: body.atmosphere?.surfaceDensity ?? 0,
+  pressure: (body.atmosphere?.surfacePressure ?? 0) * 1e5, // bar -> Pa
+  scaleHeight: (body.atmosphere?.scaleHeightKm ?? 1) * 1000,
+});
+
+// Thrust of a stage at an ambient pressure; never negative, even for a vacuum nozzle fired at sea level.
+// Throttling cuts the flow, but the air still presses on the whole nozzle exit.
+export const stageThrust = (stage: AscentStage, ambientPressure: number, throttle = 1) =>
+  Math.max(0, throttle * stage.flowRate * stage.exhaustVelocity - ambientPressure * stage.exitArea);
+
+const FULL_THROTTLE: ThrottleSchedule = { command: () => 1, end: 0, maxLoad: null };
+
+// Throttle the engines actually run at: commands below the engines' range are raised to it, unless they
+// ask for a cutoff; solid motors ignore the schedule. Returns 0 with the engines off.
+const engineThrottle = (stage: AscentStage, command: number) => {
+  if (!stage.canShutDown) return 1;
+  if (command <= 0) return 0;
+  return Math.min(1, Math.max(stage.minThrottle, command));
+};
+
+// Air density at an altitude, from the body's exponential atmosphere model
+export const airDensity = (body: CelestialBodyData, altitude: number) => {
+  const { density, scaleHeight } = bodyConstants(body);
+  return density * Math.exp(-Math.max(0, altitude) / scaleHeight);
+};
+
+// Ambient pressure in Pa at an altitude
+export const airPressure = (body: CelestialBodyData, altitude: number) => {
+  const { pressure, scaleHeight } = bodyConstants(body);
+  return pressure * Math.exp(-Math.max(0, altitude) / scaleHeight);
+};
+
+export const simulateAscent = (vehicle: AscentVehicle, body: CelestialBodyData): AscentResult => {
+  const { gm, radius, density, pressure, scaleHeight } = bodyConstants(body);
+  const { stages } = vehicle;
+  const schedule = vehicle.throttle ?? FULL_THROTTLE;
+  const propellant = stages.map((s) => s.propellantMass); // Left in each tank
+  // Everything from the current stage up
+  const stackMass = (from: number) =>
+    stages.slice(from).reduce((sum, s, i) => sum + s.dryMass + propellant[from + i], 0);
+
+  let stage = 0;
+  const separations: StagingEvent[] = [];
+  let step = 0;
+  let time = 0;
+  let altitude = 0;
+  let velocity = 0;
+  let liftoff: AscentEvent | null = null;
+  let ignited = false;
+  let burnout: AscentEvent | null = null;
+  let maxQ = { time: 0, altitude: 0, velocity: 0, dynamicPressure: 0 };
+  let maxLoad = { time: 0, altitude: 0, velocity: 0, load: 0 };
+  let apogee: AscentEvent = { time: 0, altitude: 0, velocity: 0 };
+  let outcome: AscentOutcome = 'timeout';
+  const samples: AscentSample[] = [];
+
+  for (; step <= MAX_STEPS; step++) {
+    time = step * TIME_STEP;
+    // Drop spent stages; the next one ignites straight away
+    while (stage < stages.length - 1 && (propellant[stage] <= 0 || stages[stage].flowRate <= 0)) {
+      stage++;
+      separations.push({ time, altitude, velocity, stage: stage - 1, mass: stackMass(stage) });
+    }
+    const current = stages[stage];
+    const mass = stackMass(stage);
+    const thinning = Math.exp(-altitude / scaleHeight);
+    const ambient = pressure * thinning;
+    const gravity = gm / (radius + altitude) ** 2;
+    const rho = density * thinning;
+    const dynamicPressure = 0.5 * rho * velocity * velocity;
+    const drag = dynamicPressure * vehicle.dragCoefficient * vehicle.referenceArea;
+
+    let throttle = propellant[stage] > 0 && current.flowRate > 0 ? engineThrottle(current, schedule.command(time)) : 0;
+    if (throttle > 0 && schedule.maxLoad !== null && current.canShutDown) {
+      // Just enough thrust to hold the felt acceleration at the cap, within the engines' range
+      const allowed = schedule.maxLoad * mass + Math.sign(velocity) * drag;
+      const needed = (allowed + ambient * current.exitArea) / (current.flowRate * current.exhaustVelocity);
+      throttle = Math.max(current.minThrottle, Math.min(throttle, needed));
+    }
+    const burning = throttle > 0;
+    const thrust = burning ? stageThrust(current, ambient, throttle) : 0;
+
+    let acceleration = (thrust - Math.sign(velocity) * drag) / mass - gravity;
+    // Sitting on the pad: the ground pushes back until thrust exceeds weight
+    const onGround = altitude <= 0 && velocity <= 0;
+    if (onGround && acceleration <= 0) acceleration = 0;
+    else if (!liftoff) liftoff = { time, altitude, velocity };
+
+    if (step % STEPS_PER_SAMPLE === 0) {
+      samples.push({ time, altitude, velocity, acceleration, mass, thrust, throttle, drag, gravity, dynamicPressure, stage });
+    }
+    // Hold-down clamps: a rocket that full thrust can't lift at ignition is shut down on the pad, as the launch
+    // check says, rather than burning there until it is light enough
+    if (burning && !ignited) {
+      ignited = true;
+      if (!liftoff && stageThrust(current, ambient) <= mass * gravity) {
+        outcome = 'grounded';
+        break;
+      }
+    }
+    if (dynamicPressure > maxQ.dynamicPressure) maxQ = { time, altitude, velocity, dynamicPressure };
+    // Felt acceleration is everything but gravity; standing on the pad it is the ground's push, 1 g
+    const load = acceleration + gravity;
+    if (load > maxLoad.load) maxLoad = { time, altitude, velocity, load };
+    if (altitude >= apogee.altitude) apogee = { time, altitude, velocity };
+    if (burning) burnout = null;
+    else if (!burnout) burnout = { time, altitude, velocity };
+
+    // Back on the ground after liftoff ends the flight, even with the engines still running
+    if (liftoff && altitude <= 0 && velocity < 0) {
+      outcome = 'landed';
+      break;
+    }
+    // With the engines off, stop once the outcome is settled: never lifting off, past the highest point,
+    // or above escape speed. A schedule that may still relight the engines keeps the flight going.
+    const relight = time < schedule.end && propellant.slice(stage).some((p) => p > 0);
+    if (!burning && !relight) {
+      if (!liftoff) {
+        outcome = 'grounded';
+        break;
+      }
+      if (velocity <= 0) {
+        outcome = 'apogee';
+        break;
+      }
+      if (velocity * velocity >= (2 * gm) / (radius + altitude)) {
+        outcome = 'escape';
+        break;
+      }
+    }
+
+    if (burning) propellant[stage] = Math.max(0, propellant[stage] - throttle * current.flowRate * TIME_STEP);
+    velocity += acceleration * TIME_STEP;
+    altitude = Math.max(0, altitude + velocity * TIME_STEP);
+  }
+  if (!liftoff) outcome = 'grounded';
+
+  if (samples[samples.length - 1].time < time) {
+    const gravity = gm / (radius + altitude) ** 2;
+    samples.push({ time, altitude, velocity, acceleration: -gravity, mass: stackMass(stage), thrust: 0, throttle: 0, drag: 0, gravity, dynamicPressure: 0, stage });
+  }
+  if (outcome !== 'apogee' && outcome !== 'landed') apogee = { time, altitude, velocity };
+
+  return { samples, outcome, liftoff, separations, burnout: burnout ?? { time, altitude, velocity }, maxQ, maxLoad, apogee };
+};
+
+// Linearly interpolated state at a playback time
+export const sampleAt = (samples: AscentSample[], time: number): AscentSample => {
+  if (time <= samples[0].time) return samples[0];
+  const last = samples[samples.length - 1];
+  if (time >= last.time) return last;
+  // Samples are evenly spaced apart from the final one
+  const i = Math.min(samples.length - 2, Math.floor(time / SAMPLE_INTERVAL));
+  const a = samples[i];
+  const b = samples[i + 1];
+  const f = (time - a.time) / (b.time - a.time);
+  const mix = (x: number, y: number) => x + (y - x) * f;
+  return {
+    time,
+    altitude: mix(a.altitude, b.altitude),
+    velocity: mix(a.velocity, b.velocity),
+    acceleration: mix(a.acceleration, b.acceleration),
+    mass: mix(a.mass, b.mass),
+    thrust: mix(a.thrust, b.thrust),
+    throttle: mix(a.throttle, b.throttle),
+    drag: mix(a.drag, b.drag),
+    gravity: mix(a.gravity, b.gravity),
+    dynamicPressure: mix(a.dynamicPressure, b.dynamicPressure),
+    stage: a.stage,
+  };
+};
@@ -0,0 +1,22 @@
+// Save generated content as a file through a temporary object URL
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (filename: string, data: unknown) =>
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+
+// Show a standalone HTML page in a new window and open the print dialog, where "Save as PDF" produces the file
+export const printDocument = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups for this site to export a PDF');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,120 @@
+import { PlanetEngineeringInfo } from '../types';
+import { validateEngineeringInfo } from './engineeringSchema';
+
+// Engineering data persisted in IndexedDB so answers survive reloads. Entries are keyed by body,
+// prompt version and model; a lab machine can be warmed up once, exported, and seeded elsewhere.
+
+export interface EngineeringCacheEntry {
+  key: string;
+  bodyName: string;
+  promptVersion: number;
+  model: string;
+  fetchedAt: number; // ms since epoch
+  info: PlanetEngineeringInfo;
+}
+
+export interface EngineeringCacheFile {
+  format: 'engineering-cache';
+  version: 1;
+  exportedAt: string;
+  entries: EngineeringCacheEntry[];
+}
+
+// Answers older than this are fetched again
+export const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'solar-engineering';
+const STORE = 'engineering-data';
+
+export const getCacheKey = (bodyName: string, promptVersion: number, model: string) =>
+  `${bodyName.toLowerCase()}|v${promptVersion}|${model}`;
+
+export const isExpired = (entry: EngineeringCacheEntry, now = Date.now()) => now - entry.fetchedAt > CACHE_TTL_MS;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is unavailable (private browsing, old browsers); the app then
+// simply runs without a persistent cache.
+const openDb = (): Promise<IDBDatabase | null> => {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Engineering cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> =>
+  openDb().then((db) => {
+    if (!db) return undefined;
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  });
+
+export const readCacheEntry = (key: string): Promise<EngineeringCacheEntry | undefined> =>
+  runRequest<EngineeringCacheEntry>('readonly', (store) => store.get(key));
+
+export const writeCacheEntry = async (entry: EngineeringCacheEntry): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(entry));
+};
+
+export const readAllCacheEntries = async (): Promise<EngineeringCacheEntry[]> =>
+  (await runRequest<EngineeringCacheEntry[]>('readonly', (store) => store.getAll())) ?? [];
+
+export const exportEngineeringCache = async (): Promise<EngineeringCacheFile> => ({
+  format: 'engineering-cache',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  entries: await readAllCacheEntries(),
+});
+
+const parseCacheEntry = (value: unknown, index: number): EngineeringCacheEntry => {
+  const e = (value ?? {}) as Record<string, unknown>;
+  if (typeof e.bodyName !== 'string' || typeof e.model !== 'string'
+    || typeof e.promptVersion !== 'number' || typeof e.fetchedAt !== 'number') {
+    throw new Error(`Entry ${index + 1}: expected bodyName, model, promptVersion and fetchedAt`);
+  }
+  let info: PlanetEngineeringInfo;
+  try {
+    info = validateEngineeringInfo(e.info);
+  } catch (err) {
+    throw new Error(`Entry ${index + 1}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return {
+    key: getCacheKey(e.bodyName, e.promptVersion, e.model),
+    bodyName: e.bodyName,
+    promptVersion: e.promptVersion,
+    model: e.model,
+    fetchedAt: e.fetchedAt,
+    info,
+  };
+};
+
+// Merge an exported cache file into this browser's cache. Newer entries win. Returns the number stored.
+export const importEngineeringCache = async (data: unknown): Promise<number> => {
+  const file = (data ?? {}) as Partial<EngineeringCacheFile>;
+  if (file.format !== 'engineering-cache' || !Array.isArray(file.entries)) {
+    throw new Error('Not an engineering cache export');
+  }
+  const entries = file.entries.map(parseCacheEntry);
+  if (!(await openDb())) throw new Error('This browser has no IndexedDB storage');
+
+  let stored = 0;
+  for (const entry of entries) {
+    const existing = await readCacheEntry(entry.key);
+    if (existing && existing.fetchedAt >= entry.fetchedAt) continue;
+    await writeCacheEntry(entry);
+    stored++;
+  }
+  return stored;
+};
@@ -0,0 +1,74 @@
+import { PlanetEngineeringInfo } from '../types';
+import { validateEngineeringInfo } from './engineeringSchema';
+
+// Pluggable source for the engineering summaries shown in the info panel. The app talks to whichever
+// provider the build is configured with (see readProviderConfig) through getPlanetEngineeringData.
+// Gemini is only ever called from the lab proxy (server/), so the API key never reaches the browser.
+
+export type ProviderId = 'gemini' | 'proxy' | 'fixture' | 'local';
+
+export interface EngineeringDataProvider {
+  id: ProviderId;
+  label: string; // Shown in the UI so users know where the data came from
+  model: string; // Part of the cache key, so switching models never serves another model's answers
+  resolveModel?: (signal?: AbortSignal) => Promise<string>; // For a provider that only learns its model at run time
+  getEngineeringData: (bodyName: string, signal?: AbortSignal) => Promise<PlanetEngineeringInfo>;
+}
+
+export type EnvValues = Record<string, string | undefined>;
+
+export interface LocalModelConfig {
+  localUrl: string; // Base URL of an OpenAI-compatible (.../v1) or Ollama server
+  localModel: string;
+  localApi: 'openai' | 'ollama';
+}
+
+// Shared by the browser build and the proxy, which both can talk to a local model
+export const readLocalModelConfig = (env: EnvValues): LocalModelConfig => ({
+  localUrl: (env.LOCAL_AI_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+  localModel: env.LOCAL_AI_MODEL || 'llama3.2',
+  localApi: env.LOCAL_AI_API === 'ollama' ? 'ollama' : 'openai',
+});
+
+export interface ProviderConfig extends LocalModelConfig {
+  provider: 'proxy' | 'fixture' | 'local';
+  proxyUrl: string; // Empty for same origin (the Vite dev server forwards /api to the proxy)
+}
+
+// Build-time configuration for the browser (injected by vite.config.ts from .env.local).
+// Defaults to the lab proxy; "gemini" is accepted as an alias since the proxy is the only way to reach it.
+export const readProviderConfig = (): ProviderConfig => {
+  const requested = (process.env.AI_PROVIDER || '').toLowerCase();
+  return {
+    provider: requested === 'fixture' || requested === 'local' ? requested : 'proxy',
+    proxyUrl: (process.env.PROXY_URL || '').replace(/\/+$/, ''),
+    ...readLocalModelConfig({
+      LOCAL_AI_URL: process.env.LOCAL_AI_URL,
+      LOCAL_AI_MODEL: process.env.LOCAL_AI_MODEL,
+      LOCAL_AI_API: process.env.LOCAL_AI_API,
+    }),
+  };
+};
+
+// Bump whenever the prompt changes meaningfully; cached answers from older prompts are then ignored
+export const PROMPT_VERSION = 2;
+
+// Prompt shared by the model-backed providers
+export const buildEngineeringPrompt = (bodyName: string): string => `
+      Provide a brief engineering summary for the Solar System body ${bodyName} (a planet, dwarf planet, moon or the Sun).
+      Return ONLY a JSON object with the following keys. Quantities are objects { "value": number, "unit": string }.
+      - surfaceGravity: quantity in m/s²
+      - meanTemperature: quantity in K (at the 1 bar level for giant planets)
+      - minTemperature: quantity in K, or null if unknown
+      - maxTemperature: quantity in K, or null if unknown
+      - surfacePressure: quantity in bar (1 for giant planets, 0 for airless bodies), or null for the Sun
+      - atmosphere: array of the major constituents by volume as { "gas": chemical formula, "percent": number }, empty if there is none
+      - engineeringChallenge: string (one major challenge for landing or operating machinery there, max 20 words)
+    `;
+
+// Parse a model's JSON reply, tolerating markdown code fences around it
+export const parseJsonReply = (text: string): unknown =>
+  JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+
+// Parse a model reply into PlanetEngineeringInfo
+export const parseEngineeringJson = (text: string): PlanetEngineeringInfo => validateEngineeringInfo(parseJsonReply(text));
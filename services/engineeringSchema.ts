@@ -0,0 +1,98 @@
+import { AtmosphereConstituent, PlanetEngineeringInfo, Quantity } from '../types';
+
+// Typed engineering data: shape checks for untrusted input (model replies, imported cache files),
+// conversion of reported units to the canonical m/s², K and bar, and display formatting.
+
+type Converter = (value: number) => number;
+
+const GRAVITY_UNITS: Record<string, Converter> = {
+  'm/s²': (v) => v,
+  'm/s2': (v) => v,
+  'm/s^2': (v) => v,
+  'cm/s²': (v) => v / 100,
+  'cm/s2': (v) => v / 100,
+  'ft/s²': (v) => v * 0.3048,
+  'ft/s2': (v) => v * 0.3048,
+  g: (v) => v * 9.80665,
+};
+
+const TEMPERATURE_UNITS: Record<string, Converter> = {
+  k: (v) => v,
+  '°c': (v) => v + 273.15,
+  c: (v) => v + 273.15,
+  '°f': (v) => ((v - 32) * 5) / 9 + 273.15,
+  f: (v) => ((v - 32) * 5) / 9 + 273.15,
+};
+
+const PRESSURE_UNITS: Record<string, Converter> = {
+  bar: (v) => v,
+  mbar: (v) => v / 1000,
+  pa: (v) => v / 1e5,
+  kpa: (v) => v / 100,
+  atm: (v) => v * 1.01325,
+  psi: (v) => v * 0.0689476,
+};
+
+const normalizeQuantity = (value: unknown, field: string, units: Record<string, Converter>, canonical: string): Quantity => {
+  const q = (value ?? {}) as Record<string, unknown>;
+  if (typeof q.value !== 'number' || !Number.isFinite(q.value) || typeof q.unit !== 'string') {
+    throw new Error(`Engineering data "${field}" must be { value, unit }`);
+  }
+  const convert = units[q.unit.toLowerCase().replace(/\s+/g, '')];
+  if (!convert) throw new Error(`Engineering data "${field}" has unsupported unit "${q.unit}"`);
+  return { value: convert(q.value), unit: canonical };
+};
+
+const normalizeOptional = (value: unknown, field: string, units: Record<string, Converter>, canonical: string): Quantity | null =>
+  value === null || value === undefined ? null : normalizeQuantity(value, field, units, canonical);
+
+const parseAtmosphere = (value: unknown): AtmosphereConstituent[] => {
+  if (!Array.isArray(value)) throw new Error('Engineering data "atmosphere" must be a list');
+  return value.map((item) => {
+    const c = (item ?? {}) as Record<string, unknown>;
+    if (typeof c.gas !== 'string' || typeof c.percent !== 'number' || !Number.isFinite(c.percent)) {
+      throw new Error('Atmosphere constituents must be { gas, percent }');
+    }
+    return { gas: c.gas, percent: c.percent };
+  });
+};
+
+// Check that untrusted data has the PlanetEngineeringInfo shape and convert it to canonical units
+export const validateEngineeringInfo = (value: unknown): PlanetEngineeringInfo => {
+  if (!value || typeof value !== 'object') throw new Error('Engineering data must be an object');
+  const data = value as Record<string, unknown>;
+  if (typeof data.engineeringChallenge !== 'string') throw new Error('Engineering data is missing "engineeringChallenge"');
+
+  return {
+    surfaceGravity: normalizeQuantity(data.surfaceGravity, 'surfaceGravity', GRAVITY_UNITS, 'm/s²'),
+    meanTemperature: normalizeQuantity(data.meanTemperature, 'meanTemperature', TEMPERATURE_UNITS, 'K'),
+    minTemperature: normalizeOptional(data.minTemperature, 'minTemperature', TEMPERATURE_UNITS, 'K'),
+    maxTemperature: normalizeOptional(data.maxTemperature, 'maxTemperature', TEMPERATURE_UNITS, 'K'),
+    surfacePressure: normalizeOptional(data.surfacePressure, 'surfacePressure', PRESSURE_UNITS, 'bar'),
+    atmosphere: parseAtmosphere(data.atmosphere),
+    engineeringChallenge: data.engineeringChallenge,
+  };
+};
+
+// --- Display ---
+
+const round3 = (value: number) => Number(value.toPrecision(3)).toLocaleString();
+
+export const formatGravity = (q: Quantity) => `${round3(q.value)} m/s²`;
+
+export const formatTemperature = (q: Quantity) => `${Math.round(q.value - 273.15).toLocaleString()}°C`;
+
+export const formatTemperatureRange = (info: PlanetEngineeringInfo) =>
+  info.minTemperature && info.maxTemperature
+    ? `${Math.round(info.minTemperature.value - 273.15)} to ${Math.round(info.maxTemperature.value - 273.15)}°C`
+    : null;
+
+export const formatPressure = (q: Quantity | null) => {
+  if (!q) return 'No surface';
+  if (q.value === 0) return 'Vacuum';
+  if (q.value < 0.01) return `${round3(q.value * 1e5)} Pa`;
+  return `${round3(q.value)} bar`;
+};
+
+export const formatAtmosphere = (constituents: AtmosphereConstituent[]) =>
+  constituents.length === 0 ? 'None' : constituents.map((c) => `${c.gas} ${c.percent}%`).join(', ');
@@ -0,0 +1,122 @@
+import { AtmosphereConstituent, PlanetEngineeringInfo, Quantity } from '../types';
+import { ENGINEERING_REFERENCE, getBodyById, getSurfacePressure } from '../constants';
+import { formatAtmosphere, formatGravity, formatPressure, formatTemperature } from './engineeringSchema';
+
+// Sanity checks of provider answers against the bundled reference table. Fields that disagree beyond
+// a tolerance are replaced by the reference value and reported, so the UI can flag them.
+
+export type EngineeringField = 'surfaceGravity' | 'meanTemperature' | 'minTemperature' | 'maxTemperature' | 'surfacePressure' | 'atmosphere';
+
+export interface EngineeringIssue {
+  field: EngineeringField;
+  label: string;
+  reported: string;
+  reference: string;
+}
+
+// Relative tolerance on gravity and pressure; temperatures allow the larger of an absolute and relative error
+const GRAVITY_TOLERANCE = 0.1;
+const PRESSURE_TOLERANCE = 0.25;
+const TEMPERATURE_TOLERANCE_K = 25;
+const TEMPERATURE_TOLERANCE = 0.15;
+// Below this pressure (bar) an atmosphere counts as an exosphere; any two such values agree
+const VACUUM_BAR = 1e-3;
+// Allowed difference in the main constituent's share, in percentage points
+const CONSTITUENT_TOLERANCE = 10;
+
+// Providers name gases loosely ("Hydrogen", "H2", "H"); compare them by a common name
+const GAS_NAMES: Record<string, string> = {
+  h: 'hydrogen', h2: 'hydrogen', hydrogen: 'hydrogen',
+  he: 'helium', helium: 'helium',
+  n2: 'nitrogen', nitrogen: 'nitrogen',
+  o2: 'oxygen', oxygen: 'oxygen',
+  co2: 'carbon dioxide', 'carbon dioxide': 'carbon dioxide',
+  co: 'carbon monoxide', 'carbon monoxide': 'carbon monoxide',
+  ar: 'argon', argon: 'argon',
+  ch4: 'methane', methane: 'methane',
+  so2: 'sulfur dioxide', 'sulfur dioxide': 'sulfur dioxide', 'sulphur dioxide': 'sulfur dioxide',
+  h2o: 'water', water: 'water', 'water vapor': 'water', 'water vapour': 'water',
+};
+
+const gasName = (gas: string) => {
+  const key = gas.trim().toLowerCase();
+  return GAS_NAMES[key] ?? key;
+};
+
+const mainConstituent = (constituents: AtmosphereConstituent[]) =>
+  constituents.reduce<AtmosphereConstituent | null>((main, c) => (!main || c.percent > main.percent ? c : main), null);
+
+const withinRelative = (reported: number, reference: number, tolerance: number) =>
+  Math.abs(reported - reference) <= Math.abs(reference) * tolerance;
+
+const temperatureAgrees = (reported: number, reference: number) =>
+  Math.abs(reported - reference) <= Math.max(TEMPERATURE_TOLERANCE_K, reference * TEMPERATURE_TOLERANCE);
+
+const pressureAgrees = (reported: number, reference: number) =>
+  (reported < VACUUM_BAR && reference < VACUUM_BAR) || withinRelative(reported, reference, PRESSURE_TOLERANCE);
+
+const atmosphereAgrees = (reported: AtmosphereConstituent[], reference: PlanetEngineeringInfo) => {
+  const expected = mainConstituent(reference.atmosphere);
+  if (!expected) return true;
+  const main = mainConstituent(reported);
+  // Tenuous exospheres may reasonably be reported as no atmosphere at all
+  if (!main) return (reference.surfacePressure?.value ?? 0) < VACUUM_BAR;
+  return gasName(main.gas) === gasName(expected.gas) && Math.abs(main.percent - expected.percent) <= CONSTITUENT_TOLERANCE;
+};
+
+const kelvin = (value: number): Quantity => ({ value, unit: 'K' });
+
+// The reference entry, completed with gravity and pressure from the body catalog, for offline use
+export const getReferenceInfo = (bodyId: string): PlanetEngineeringInfo | null => {
+  const body = getBodyById(bodyId);
+  const reference = ENGINEERING_REFERENCE[bodyId];
+  if (!body || !reference) return null;
+  const pressure = getSurfacePressure(body);
+  return {
+    surfaceGravity: { value: body.surfaceGravity, unit: 'm/s²' },
+    meanTemperature: kelvin(reference.meanTemperature),
+    minTemperature: reference.minTemperature === null ? null : kelvin(reference.minTemperature),
+    maxTemperature: reference.maxTemperature === null ? null : kelvin(reference.maxTemperature),
+    surfacePressure: pressure === null ? null : { value: pressure, unit: 'bar' },
+    atmosphere: reference.atmosphere.map((c) => ({ ...c })),
+    engineeringChallenge: reference.engineeringChallenge,
+  };
+};
+
+export const checkAgainstReference = (
+  bodyId: string,
+  info: PlanetEngineeringInfo
+): { info: PlanetEngineeringInfo; issues: EngineeringIssue[] } => {
+  const expected = getReferenceInfo(bodyId);
+  if (!expected) return { info, issues: [] };
+
+  const checked: PlanetEngineeringInfo = { ...info };
+  const issues: EngineeringIssue[] = [];
+
+  const flag = <K extends EngineeringField>(field: K, label: string, format: (value: PlanetEngineeringInfo[K]) => string) => {
+    issues.push({ field, label, reported: format(info[field]), reference: format(expected[field]) });
+    checked[field] = expected[field];
+  };
+  const formatOptionalTemperature = (q: Quantity | null) => (q ? formatTemperature(q) : 'not reported');
+
+  if (!withinRelative(info.surfaceGravity.value, expected.surfaceGravity.value, GRAVITY_TOLERANCE)) {
+    flag('surfaceGravity', 'Gravity', formatGravity);
+  }
+  if (!temperatureAgrees(info.meanTemperature.value, expected.meanTemperature.value)) {
+    flag('meanTemperature', 'Mean temperature', formatTemperature);
+  }
+  if (expected.minTemperature && info.minTemperature && !temperatureAgrees(info.minTemperature.value, expected.minTemperature.value)) {
+    flag('minTemperature', 'Minimum temperature', formatOptionalTemperature);
+  }
+  if (expected.maxTemperature && info.maxTemperature && !temperatureAgrees(info.maxTemperature.value, expected.maxTemperature.value)) {
+    flag('maxTemperature', 'Maximum temperature', formatOptionalTemperature);
+  }
+  if (expected.surfacePressure && (!info.surfacePressure || !pressureAgrees(info.surfacePressure.value, expected.surfacePressure.value))) {
+    flag('surfacePressure', 'Surface pressure', formatPressure);
+  }
+  if (!atmosphereAgrees(info.atmosphere, expected)) {
+    flag('atmosphere', 'Atmosphere', formatAtmosphere);
+  }
+
+  return { info: checked, issues };
+};
@@ -0,0 +1,240 @@
+import * as THREE from 'three';
+import { CelestialBodyData, OrbitalElements } from '../types';
+import { ScaleMode, getSceneDistance, getMoonSceneDistance } from './sceneScale';
+
+// J2000.0 epoch: 2000-01-01 12:00 TT (UTC is close enough for a visual ephemeris)
+export const J2000_EPOCH_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
+export const MS_PER_DAY = 86400000;
+
+// Gaussian gravitational constant expressed as the mean motion of a 1 AU orbit (deg/day)
+const MEAN_MOTION_1AU = 0.9856076686;
+
+const DEG = Math.PI / 180;
+
+export const daysSinceJ2000 = (date: Date): number => (date.getTime() - J2000_EPOCH_MS) / MS_PER_DAY;
+
+// Mean motion from Kepler's third law (deg/day)
+export const getMeanMotion = (elements: OrbitalElements): number =>
+  MEAN_MOTION_1AU / Math.pow(elements.semiMajorAxis, 1.5);
+
+export const getOrbitalPeriodDays = (elements: OrbitalElements): number => 360 / getMeanMotion(elements);
+
+// Solve Kepler's equation M = E - e*sin(E) for the eccentric anomaly E (radians) by Newton iteration
+export const solveKepler = (meanAnomaly: number, eccentricity: number): number => {
+  let E = eccentricity < 0.8 ? meanAnomaly : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const dE = (E - eccentricity * Math.sin(E) - meanAnomaly) / (1 - eccentricity * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-10) break;
+  }
+  return E;
+};
+
+export interface PerifocalBasis {
+  P: THREE.Vector3; // Toward perihelion
+  Q: THREE.Vector3; // 90 degrees ahead of P in the direction of motion
+  W: THREE.Vector3; // Orbit normal
+}
+
+// Unit vectors of the orbit plane expressed in the ecliptic frame
+export const getPerifocalBasis = (elements: OrbitalElements): PerifocalBasis => {
+  const w = elements.argumentOfPerihelion * DEG;
+  const node = elements.longitudeOfAscendingNode * DEG;
+  const inc = elements.inclination * DEG;
+
+  const cosW = Math.cos(w), sinW = Math.sin(w);
+  const cosN = Math.cos(node), sinN = Math.sin(node);
+  const cosI = Math.cos(inc), sinI = Math.sin(inc);
+
+  return {
+    P: new THREE.Vector3(cosW * cosN - sinW * sinN * cosI, cosW * sinN + sinW * cosN * cosI, sinW * sinI),
+    Q: new THREE.Vector3(-sinW * cosN - cosW * sinN * cosI, -sinW * sinN + cosW * cosN * cosI, cosW * sinI),
+    W: new THREE.Vector3(sinN * sinI, -cosN * sinI, cosI),
+  };
+};
+
+/**
+ * Heliocentric ecliptic position (AU) at eccentric anomaly `E` (radians).
+ * Writes into `out` (x toward the vernal equinox, z toward the ecliptic north pole).
+ */
+export const getOrbitPointAtAnomaly = (
+  elements: OrbitalElements,
+  E: number,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const { semiMajorAxis: a, eccentricity: e } = elements;
+  const { P, Q } = getPerifocalBasis(elements);
+
+  // Position in the orbital plane (perihelion along +x')
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  return out.copy(P).multiplyScalar(xp).addScaledVector(Q, yp);
+};
+
+// Heliocentric ecliptic position (AU) of a body with the given elements at a date
+export const getHeliocentricPosition = (
+  elements: OrbitalElements,
+  date: Date,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const M = (elements.meanAnomaly + getMeanMotion(elements) * daysSinceJ2000(date)) * DEG;
+  const E = solveKepler(THREE.MathUtils.euclideanModulo(M, Math.PI * 2), elements.eccentricity);
+  return getOrbitPointAtAnomaly(elements, E, out);
+};
+
+// Heliocentric ecliptic velocity (AU/day) of a body with the given elements at a date
+export const getHeliocentricVelocity = (
+  elements: OrbitalElements,
+  date: Date,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const { semiMajorAxis: a, eccentricity: e } = elements;
+  const n = getMeanMotion(elements) * DEG; // rad/day
+  const M = (elements.meanAnomaly + getMeanMotion(elements) * daysSinceJ2000(date)) * DEG;
+  const E = solveKepler(THREE.MathUtils.euclideanModulo(M, Math.PI * 2), e);
+  const { P, Q } = getPerifocalBasis(elements);
+
+  const denom = 1 - e * Math.cos(E);
+  const xdot = (-a * n * Math.sin(E)) / denom;
+  const ydot = (a * n * Math.sqrt(1 - e * e) * Math.cos(E)) / denom;
+
+  return out.copy(P).multiplyScalar(xdot).addScaledVector(Q, ydot);
+};
+
+// Ecliptic (z-up) to scene (y-up) axes. Ecliptic +y maps to scene -z so orbits run counter-clockwise seen from above.
+export const eclipticToScene = (v: THREE.Vector3, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 =>
+  out.set(v.x, v.z, -v.y);
+
+const scratch = new THREE.Vector3();
+
+/**
+ * Maps a heliocentric ecliptic position (AU) of `body` into the scene for a scale mode.
+ * In the visual mode a body's whole orbit is scaled uniformly so its semi-major axis lands on its
+ * visual `distance`; otherwise the heliocentric distance goes through the mode's radial mapping.
+ */
+export const projectToScene = (
+  body: CelestialBodyData | null,
+  ecliptic: THREE.Vector3,
+  mode: ScaleMode = 'visual',
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  eclipticToScene(ecliptic, out);
+  if (mode === 'visual' && body?.elements) {
+    return out.multiplyScalar(body.distance / body.elements.semiMajorAxis);
+  }
+  const r = ecliptic.length();
+  return r > 0 ? out.multiplyScalar(getSceneDistance(r, mode) / r) : out;
+};
+
+// Scene position of a body at a date. The direction is always real; the radius depends on the scale mode.
+export const getScenePosition = (
+  body: CelestialBodyData,
+  date: Date,
+  out: THREE.Vector3 = new THREE.Vector3(),
+  mode: ScaleMode = 'visual'
+): THREE.Vector3 => {
+  if (!body.elements) return out.set(0, 0, 0);
+
+  getHeliocentricPosition(body.elements, date, scratch);
+  return projectToScene(body, scratch, mode, out);
+};
+
+// Closed orbit ellipse in scene coordinates, sampled evenly in eccentric anomaly
+export const getSceneOrbitPath = (
+  body: CelestialBodyData,
+  mode: ScaleMode = 'visual',
+  segments: number = 256
+): THREE.Vector3[] => {
+  if (!body.elements) return [];
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    getOrbitPointAtAnomaly(body.elements!, (i / segments) * Math.PI * 2, scratch);
+    return projectToScene(body, scratch, mode);
+  });
+};
+
+export interface OrbitLandmarks {
+  perihelion: THREE.Vector3;
+  aphelion: THREE.Vector3;
+  ascendingNode: THREE.Vector3;
+  descendingNode: THREE.Vector3;
+}
+
+// Apsides and nodes of a body's orbit in scene coordinates
+export const getSceneOrbitLandmarks = (body: CelestialBodyData, mode: ScaleMode = 'visual'): OrbitLandmarks | null => {
+  if (!body.elements) return null;
+  const { semiMajorAxis: a, eccentricity: e, argumentOfPerihelion } = body.elements;
+  const { P, Q } = getPerifocalBasis(body.elements);
+
+  // Orbit point at true anomaly `nu`
+  const atTrueAnomaly = (nu: number) => {
+    const r = (a * (1 - e * e)) / (1 + e * Math.cos(nu));
+    scratch.copy(P).multiplyScalar(r * Math.cos(nu)).addScaledVector(Q, r * Math.sin(nu));
+    return projectToScene(body, scratch, mode);
+  };
+
+  // The ascending node is where the argument of latitude (w + nu) is zero
+  const w = argumentOfPerihelion * DEG;
+  return {
+    perihelion: atTrueAnomaly(0),
+    aphelion: atTrueAnomaly(Math.PI),
+    ascendingNode: atTrueAnomaly(-w),
+    descendingNode: atTrueAnomaly(Math.PI - w),
+  };
+};
+
+/**
+ * Filled orbit ellipse lying in the body's orbit plane. Built in perifocal coordinates (AU),
+ * rotated into the ecliptic, then projected vertex by vertex so it follows non-linear scale modes too.
+ */
+export const createOrbitPlaneGeometry = (body: CelestialBodyData, mode: ScaleMode = 'visual'): THREE.BufferGeometry | null => {
+  if (!body.elements) return null;
+  const { semiMajorAxis: a, eccentricity: e } = body.elements;
+  const { P, Q, W } = getPerifocalBasis(body.elements);
+
+  const shape = new THREE.Shape();
+  shape.absellipse(-a * e, 0, a, a * Math.sqrt(1 - e * e), 0, Math.PI * 2, false, 0);
+  const geometry = new THREE.ShapeGeometry(shape, 96);
+  geometry.applyMatrix4(new THREE.Matrix4().makeBasis(P, Q, W));
+
+  const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const projected = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    scratch.fromBufferAttribute(position, i);
+    projectToScene(body, scratch, mode, projected);
+    position.setXYZ(i, projected.x, projected.y, projected.z);
+  }
+  position.needsUpdate = true;
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+/**
+ * Point on a moon's circular orbit at orbital angle `angle` (radians), in the parent's local scene frame.
+ */
+export const getMoonOrbitPoint = (
+  moon: CelestialBodyData,
+  angle: number,
+  out: THREE.Vector3 = new THREE.Vector3(),
+  mode: ScaleMode = 'visual'
+): THREE.Vector3 => {
+  const inc = (moon.moonOrbit?.inclination ?? 0) * DEG;
+  const radius = getMoonSceneDistance(moon, mode);
+  const along = Math.cos(angle) * radius;
+  const across = Math.sin(angle) * radius;
+  return out.set(along, across * Math.sin(inc), -across * Math.cos(inc));
+};
+
+// Moon position relative to its parent at a date
+export const getMoonLocalPosition = (
+  moon: CelestialBodyData,
+  date: Date,
+  out: THREE.Vector3 = new THREE.Vector3(),
+  mode: ScaleMode = 'visual'
+): THREE.Vector3 => {
+  if (!moon.moonOrbit) return out.set(0, 0, 0);
+
+  const { periodDays, phase } = moon.moonOrbit;
+  const angle = (phase + (360 * daysSinceJ2000(date)) / periodDays) * DEG;
+  return getMoonOrbitPoint(moon, THREE.MathUtils.euclideanModulo(angle, Math.PI * 2), out, mode);
+};
@@ -0,0 +1,43 @@
+import { EngineeringDataProvider } from './engineeringProvider';
+import { LabChatProvider } from './labChat';
+import { LabReportProvider, writeTemplateDraft } from './labReport';
+import { sleep } from './requestControl';
+import { getReferenceInfo } from './engineeringValidation';
+import { getBodyByName } from '../constants';
+
+// Deterministic provider backed by the bundled reference table: works offline, needs no key, and
+// always returns the same answer, which also makes it the provider to use in tests.
+export const createFixtureProvider = (): EngineeringDataProvider => ({
+  id: 'fixture',
+  label: 'Offline Data',
+  model: 'fixture',
+  getEngineeringData: async (bodyName) => {
+    const body = getBodyByName(bodyName);
+    const reference = body && getReferenceInfo(body.id);
+    if (!reference) throw new Error(`No offline data for ${bodyName}`);
+    return reference;
+  },
+});
+
+// Without a model the assistant can still show students what it would be working from
+export const createFixtureChatProvider = (): LabChatProvider => ({
+  label: 'Offline',
+  streamReply: async function* (messages, labContext, signal) {
+    const question = messages.filter((m) => m.role === 'user').pop()?.content ?? '';
+    const reply = `No AI model is connected, so I can't reason about "${question}". `
+      + `These are the readings I would have used:\n\n${labContext || 'No lab is open.'}\n\n`
+      + 'Start the lab proxy (npm run proxy) with a Gemini key or a local model for real answers.';
+    // Stream word by word like a real model, so the UI behaves the same offline
+    for (const word of reply.split(/(?<=\s)/)) {
+      await sleep(15, signal);
+      yield word;
+    }
+  },
+});
+
+// Reports from the offline template, which leaves the discussion for the student to finish
+export const createFixtureReportProvider = (): LabReportProvider => ({
+  id: 'fixture',
+  label: 'Offline template',
+  writeReport: async (experiment) => writeTemplateDraft(experiment),
+});
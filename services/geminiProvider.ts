@@ -0,0 +1,116 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { EngineeringDataProvider, buildEngineeringPrompt, parseEngineeringJson, parseJsonReply } from './engineeringProvider';
+import { LabChatProvider, buildLabSystemPrompt } from './labChat';
+import { LabReportProvider, buildReportPrompt, validateReportDraft } from './labReport';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const QUANTITY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { value: { type: Type.NUMBER }, unit: { type: Type.STRING } },
+  required: ["value", "unit"]
+};
+
+export const createGeminiProvider = (apiKey: string): EngineeringDataProvider => {
+  // Created on first use so merely loading the app never touches the network
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    model: GEMINI_MODEL,
+    getEngineeringData: async (bodyName, signal) => {
+      if (!apiKey) throw new Error('No API Key found for Gemini.');
+      ai ??= new GoogleGenAI({ apiKey });
+
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildEngineeringPrompt(bodyName),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              surfaceGravity: QUANTITY_SCHEMA,
+              meanTemperature: QUANTITY_SCHEMA,
+              minTemperature: { ...QUANTITY_SCHEMA, nullable: true },
+              maxTemperature: { ...QUANTITY_SCHEMA, nullable: true },
+              surfacePressure: { ...QUANTITY_SCHEMA, nullable: true },
+              atmosphere: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { gas: { type: Type.STRING }, percent: { type: Type.NUMBER } },
+                  required: ["gas", "percent"]
+                }
+              },
+              engineeringChallenge: { type: Type.STRING },
+            },
+            required: ["surfaceGravity", "meanTemperature", "minTemperature", "maxTemperature", "surfacePressure", "atmosphere", "engineeringChallenge"]
+          }
+        }
+      });
+
+      if (!response.text) throw new Error('Empty response from Gemini');
+      return parseEngineeringJson(response.text);
+    },
+  };
+};
+
+export const createGeminiChatProvider = (apiKey: string): LabChatProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    label: 'Gemini',
+    streamReply: async function* (messages, labContext, signal) {
+      if (!apiKey) throw new Error('No API Key found for Gemini.');
+      ai ??= new GoogleGenAI({ apiKey });
+
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: messages.map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        config: { abortSignal: signal, systemInstruction: buildLabSystemPrompt(labContext) },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+export const createGeminiReportProvider = (apiKey: string): LabReportProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    writeReport: async (experiment, signal) => {
+      if (!apiKey) throw new Error('No API Key found for Gemini.');
+      ai ??= new GoogleGenAI({ apiKey });
+
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildReportPrompt(experiment),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              hypothesis: { type: Type.STRING },
+              method: { type: Type.STRING },
+              discussion: { type: Type.STRING },
+              sourcesOfError: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ["title", "hypothesis", "method", "discussion", "sourcesOfError"]
+          }
+        }
+      });
+
+      if (!response.text) throw new Error('Empty response from Gemini');
+      return validateReportDraft(parseJsonReply(response.text));
+    },
+  };
+};
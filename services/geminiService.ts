@@ -1,76 +1,184 @@
-import { GoogleGenAI, Type } from "@google/genai";
 import { PlanetEngineeringInfo } from '../types';
+import { EngineeringDataProvider, PROMPT_VERSION, readProviderConfig } from './engineeringProvider';
+import { createProxyProvider, createProxyChatProvider, createProxyReportProvider } from './proxyProvider';
+import { createFixtureProvider, createFixtureChatProvider, createFixtureReportProvider } from './fixtureProvider';
+import { createLocalModelProvider, createLocalChatProvider, createLocalReportProvider } from './localModelProvider';
+import { LabChatProvider } from './labChat';
+import { ExperimentRecord, LabReport, LabReportProvider, assembleReport } from './labReport';
+import { EngineeringIssue, checkAgainstReference } from './engineeringValidation';
+import { getBodyByName } from '../constants';
+import { isAbortError, raceAbort, withRetry } from './requestControl';
+import { EngineeringCacheEntry, getCacheKey, isExpired, readCacheEntry, writeCacheEntry, importEngineeringCache } from './engineeringCache';
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+export const createEngineeringProvider = (config = readProviderConfig()): EngineeringDataProvider => {
+  switch (config.provider) {
+    case 'proxy':
+      return createProxyProvider(config);
+    case 'local':
+      return createLocalModelProvider(config);
+    default:
+      return createFixtureProvider();
+  }
+};
 
-// Cache to prevent redundant API calls during a session
-const planetCache: Record<string, PlanetEngineeringInfo> = {};
+export const createLabChatProvider = (config = readProviderConfig()): LabChatProvider => {
+  switch (config.provider) {
+    case 'proxy':
+      return createProxyChatProvider(config);
+    case 'local':
+      return createLocalChatProvider(config);
+    default:
+      return createFixtureChatProvider();
+  }
+};
 
-export const getPlanetEngineeringData = async (planetName: string): Promise<PlanetEngineeringInfo> => {
-  if (planetCache[planetName]) {
-    return planetCache[planetName];
+export const createLabReportProvider = (config = readProviderConfig()): LabReportProvider => {
+  switch (config.provider) {
+    case 'proxy':
+      return createProxyReportProvider(config);
+    case 'local':
+      return createLocalReportProvider(config);
+    default:
+      return createFixtureReportProvider();
   }
+};
+
+// The provider chosen from the build configuration
+export const engineeringProvider = createEngineeringProvider();
+export const labChatProvider = createLabChatProvider();
+export const labReportProvider = createLabReportProvider();
+// Used whenever the configured provider fails, so the panel always has something to show
+const offlineProvider = createFixtureProvider();
+const offlineReportProvider = createFixtureReportProvider();
+
+// The model that answers, for the cache key; behind the lab proxy that is whichever model the proxy runs
+const providerModel = (signal?: AbortSignal) =>
+  engineeringProvider.resolveModel?.(signal) ?? Promise.resolve(engineeringProvider.model);
+
+// In-memory layer over the persistent cache, to prevent redundant lookups during a session
+const planetCache: Record<string, EngineeringCacheEntry> = {};
+
+interface FetchOptions {
+  refresh?: boolean; // Skip both caches and ask the provider again
+  signal?: AbortSignal; // Cancels this caller's wait; the request itself stops once every caller has cancelled
+}
 
-  // Fallback data in case API key is missing or fails
-  const fallback: PlanetEngineeringInfo = {
-    gravity: "Unknown",
-    temperature: "Unknown",
-    atmosphere: "Analyzing...",
-    engineeringChallenge: "Data link interrupted. Please check API configuration.",
-  };
-
-  if (!apiKey) {
-    console.warn("No API Key found for Gemini.");
-    return fallback;
+interface InFlightRequest {
+  promise: Promise<EngineeringCacheEntry>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Provider requests in progress, by cache key, so repeated clicks on one body share a single request
+const inFlight = new Map<string, InFlightRequest>();
+
+const requestFromProvider = (key: string, planetName: string, signal?: AbortSignal): Promise<EngineeringCacheEntry> => {
+  let request = inFlight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const promise = withRetry((attemptSignal) => engineeringProvider.getEngineeringData(planetName, attemptSignal), { signal: controller.signal })
+      .then(async (info) => {
+        // Asked again, as the answer itself may say which model wrote it
+        const model = await providerModel();
+        const entry: EngineeringCacheEntry = {
+          key: getCacheKey(planetName, PROMPT_VERSION, model),
+          bodyName: planetName,
+          promptVersion: PROMPT_VERSION,
+          model,
+          fetchedAt: Date.now(),
+          info,
+        };
+        planetCache[entry.key] = entry;
+        writeCacheEntry(entry).catch((error) => console.warn('Engineering cache write failed:', error));
+        return entry;
+      })
+      .finally(() => {
+        if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+      });
+    request = { promise, controller, waiters: 0 };
+    inFlight.set(key, request);
   }
 
-  try {
-    const prompt = `
-      Provide a brief engineering summary for the planet ${planetName}.
-      Return ONLY a JSON object with the following keys:
-      - gravity: string (e.g., "3.7 m/s²")
-      - temperature: string (e.g., "-63°C avg")
-      - atmosphere: string (brief composition)
-      - engineeringChallenge: string (one major challenge for landing or operating machinery there, max 20 words)
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            gravity: { type: Type.STRING },
-            temperature: { type: Type.STRING },
-            atmosphere: { type: Type.STRING },
-            engineeringChallenge: { type: Type.STRING },
-          },
-          required: ["gravity", "temperature", "atmosphere", "engineeringChallenge"]
-        }
-      }
-    });
-
-    let text = response.text;
-    if (text) {
-      // Sanitize output: Remove markdown code block delimiters if present
-      text = text.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-      
-      try {
-        const data = JSON.parse(text) as PlanetEngineeringInfo;
-        planetCache[planetName] = data;
-        return data;
-      } catch (e) {
-        console.error("Failed to parse JSON from Gemini:", text);
-        return fallback;
-      }
+  const shared = request;
+  shared.waiters++;
+  return raceAbort(shared.promise, signal, () => {
+    if (--shared.waiters > 0) return;
+    shared.controller.abort();
+    // The aborted promise may take a while to settle; the next caller for this body starts afresh
+    if (inFlight.get(key) === shared) inFlight.delete(key);
+  });
+};
+
+const fetchEntry = async (planetName: string, { refresh = false, signal }: FetchOptions): Promise<EngineeringCacheEntry> => {
+  const key = getCacheKey(planetName, PROMPT_VERSION, await providerModel(signal));
+
+  if (!refresh) {
+    if (planetCache[key] && !isExpired(planetCache[key])) return planetCache[key];
+    try {
+      const stored = await readCacheEntry(key);
+      if (stored && !isExpired(stored)) return (planetCache[key] = stored);
+    } catch (error) {
+      console.warn('Engineering cache read failed:', error);
     }
-    return fallback;
+  }
 
+  return requestFromProvider(key, planetName, signal);
+};
+
+export interface EngineeringResult {
+  info: PlanetEngineeringInfo; // With any value that failed the reference check replaced by the reference
+  fetchedAt: number | null; // null when the offline reference data is shown
+  issues: EngineeringIssue[];
+  error?: string; // Why the provider could not answer; the reference data is shown instead
+}
+
+// Like getPlanetEngineeringData, but also says when the answer was fetched and which values were corrected.
+// Rejects with an AbortError when options.signal aborts; provider failures resolve with `error` set.
+export const getPlanetEngineeringEntry = async (planetName: string, options: FetchOptions = {}): Promise<EngineeringResult> => {
+  try {
+    const entry = await fetchEntry(planetName, options);
+    const bodyId = getBodyByName(planetName)?.id ?? '';
+    return { ...checkAgainstReference(bodyId, entry.info), fetchedAt: entry.fetchedAt };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${engineeringProvider.label} provider error:`, error);
+    // Every body in the scene has a reference entry, so this only fails for unknown names
+    const info = await offlineProvider.getEngineeringData(planetName);
+    return { info, fetchedAt: null, issues: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const getPlanetEngineeringData = async (planetName: string, options: FetchOptions = {}): Promise<PlanetEngineeringInfo> =>
+  (await getPlanetEngineeringEntry(planetName, options)).info;
+
+// Seed the persistent cache from an exported file; the session layer is dropped so imported answers are used
+export const importEngineeringCacheFile = async (file: File): Promise<number> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  const stored = await importEngineeringCache(data);
+  for (const key of Object.keys(planetCache)) delete planetCache[key];
+  return stored;
+};
+
+export interface LabReportResult {
+  report: LabReport;
+  source: string; // Who wrote the prose
+  error?: string; // Why the provider could not write it; the offline template is used instead
+}
+
+// Rejects with an AbortError when signal aborts; provider failures resolve with the template and `error` set
+export const generateLabReport = async (experiment: ExperimentRecord, signal?: AbortSignal): Promise<LabReportResult> => {
+  try {
+    const draft = await withRetry((attemptSignal) => labReportProvider.writeReport(experiment, attemptSignal), { signal });
+    return { report: assembleReport(draft, experiment), source: labReportProvider.label };
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return fallback;
+    if (isAbortError(error)) throw error;
+    console.error(`${labReportProvider.label} report error:`, error);
+    const draft = await offlineReportProvider.writeReport(experiment);
+    return { report: assembleReport(draft, experiment), source: offlineReportProvider.label, error: error instanceof Error ? error.message : String(error) };
   }
-};
\ No newline at end of file
+};
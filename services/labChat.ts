@@ -0,0 +1,30 @@
+// "Ask the Lab": a chat assistant that sees the live state of the lab the student is working in.
+// Providers stream the reply in text chunks; the browser picks one from the same config as engineering data.
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LabChatProvider {
+  label: string;
+  streamReply: (messages: ChatMessage[], labContext: string, signal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+// Limits shared by the browser and the proxy, which rejects anything larger
+export const MAX_CHAT_MESSAGES = 20;
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+export const buildLabSystemPrompt = (labContext: string): string => `
+You are the lab assistant in AeroVerse, an interactive aerospace engineering lab for students.
+Answer questions about the student's current experiment using the live readings below: explain what
+happened in their run and why, in terms of the physics involved, and suggest what to change.
+Keep answers short (under 150 words), use SI units, and say so when the readings can't explain something.
+
+Current lab state:
+${labContext || 'No lab is open.'}
+`.trim();
+
+// Keep only the most recent turns, trimmed, so requests stay within the proxy's limits
+export const trimConversation = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.slice(-MAX_CHAT_MESSAGES).map((m) => ({ role: m.role, content: m.content.slice(0, MAX_CHAT_MESSAGE_LENGTH) }));
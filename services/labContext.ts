@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+
+// Live readings published by whichever lab is open, read by "Ask the Lab" when the student sends a question.
+// Kept at module level (like the router's state) so labs don't need to know the chat panel exists.
+
+export type LabReading = string | number | boolean | null;
+
+export interface LabContextSnapshot {
+  lab: string;
+  readings: Record<string, LabReading>; // Label (with unit) -> value
+}
+
+let current: LabContextSnapshot | null = null;
+
+// Publish the lab's current readings; they are withdrawn when the lab unmounts
+export const useLabContext = (lab: string, readings: Record<string, LabReading>) => {
+  const serialized = JSON.stringify(readings);
+
+  useEffect(() => {
+    current = { lab, readings: JSON.parse(serialized) };
+  }, [lab, serialized]);
+
+  useEffect(() => () => {
+    if (current?.lab === lab) current = null;
+  }, [lab]);
+};
+
+export const getLabContext = (): LabContextSnapshot | null => current;
+
+export const formatReading = (value: LabReading) => {
+  if (value === null) return 'n/a';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Number(value.toPrecision(4))) : String(value);
+  return String(value);
+};
+
+// Plain-text form for the model prompt
+export const describeLabContext = (snapshot: LabContextSnapshot | null): string =>
+  snapshot
+    ? [`Lab: ${snapshot.lab}`, ...Object.entries(snapshot.readings).map(([label, value]) => `- ${label}: ${formatReading(value)}`)].join('\n')
+    : '';
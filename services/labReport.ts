@@ -0,0 +1,224 @@
+import { LabReading, formatReading } from './labContext';
+import { ProviderId } from './engineeringProvider';
+
+// Post-experiment lab reports. A lab hands over what was set up and measured; a provider writes the prose
+// (hypothesis, method, discussion, sources of error) and the results table is always built from the lab's
+// own numbers, so a model can't misquote them. The student then edits the report and exports it.
+
+export interface ExperimentRecord {
+  lab: string;
+  title: string; // e.g. "10 m drop on Mars"
+  prediction: string; // What the physics model says should happen, with numbers
+  procedure: string[];
+  inputs: Record<string, LabReading>; // Label (with unit) -> value
+  results: Record<string, LabReading>;
+  findings: string[]; // Comparisons the lab has already worked out
+  limitations: string[]; // Simplifications of the simulation that affect the results
+}
+
+// The part of a report a provider writes
+export interface ReportDraft {
+  title: string;
+  hypothesis: string;
+  method: string;
+  discussion: string;
+  sourcesOfError: string[];
+}
+
+export interface ReportRow {
+  quantity: string;
+  value: string;
+}
+
+export interface LabReport extends ReportDraft {
+  lab: string;
+  date: string; // ISO date the experiment was written up
+  results: ReportRow[];
+}
+
+export interface LabReportProvider {
+  id: ProviderId;
+  label: string;
+  writeReport: (experiment: ExperimentRecord, signal?: AbortSignal) => Promise<ReportDraft>;
+}
+
+// Limits shared by the browser and the proxy, which rejects anything larger
+const MAX_TEXT_LENGTH = 1000;
+const MAX_ITEMS = 30;
+
+// Plain-text form for the model prompt
+export const describeExperiment = (experiment: ExperimentRecord): string => {
+  const list = (values: Record<string, LabReading>) =>
+    Object.entries(values).map(([label, value]) => `- ${label}: ${formatReading(value)}`);
+  return [
+    `Lab: ${experiment.lab}`,
+    `Experiment: ${experiment.title}`,
+    `Prediction: ${experiment.prediction}`,
+    'Procedure:',
+    ...experiment.procedure.map((step, i) => `${i + 1}. ${step}`),
+    'Inputs:',
+    ...list(experiment.inputs),
+    'Results:',
+    ...list(experiment.results),
+    'Findings:',
+    ...experiment.findings.map((f) => `- ${f}`),
+    'Known limitations of the simulation:',
+    ...experiment.limitations.map((l) => `- ${l}`),
+  ].join('\n');
+};
+
+export const buildReportPrompt = (experiment: ExperimentRecord): string => `
+You are helping a student write up an experiment they ran in AeroVerse, an interactive aerospace engineering lab.
+Write a short lab report based only on the data below. Do not invent measurements; use SI units.
+Return ONLY a JSON object with the following keys:
+- title: string
+- hypothesis: string (what was expected and why, 1-3 sentences)
+- method: string (how the experiment was run, 2-4 sentences)
+- discussion: string (what the results show, whether they match the prediction and why, 80-150 words)
+- sourcesOfError: array of 2-5 strings
+
+${describeExperiment(experiment)}
+`.trim();
+
+const readString = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`Report is missing "${field}"`);
+  return value.trim().slice(0, MAX_TEXT_LENGTH * 2);
+};
+
+// Check that a model reply has the ReportDraft shape
+export const validateReportDraft = (value: unknown): ReportDraft => {
+  const data = (value ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(data.sourcesOfError)) throw new Error('Report "sourcesOfError" must be a list');
+  return {
+    title: readString(data.title, 'title'),
+    hypothesis: readString(data.hypothesis, 'hypothesis'),
+    method: readString(data.method, 'method'),
+    discussion: readString(data.discussion, 'discussion'),
+    sourcesOfError: data.sourcesOfError.filter((s): s is string => typeof s === 'string' && !!s.trim()).slice(0, MAX_ITEMS),
+  };
+};
+
+const readStringList = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || value.length > MAX_ITEMS || value.some((s) => typeof s !== 'string' || s.length > MAX_TEXT_LENGTH)) {
+    throw new Error(`"${field}" must be a list of up to ${MAX_ITEMS} strings`);
+  }
+  return value;
+};
+
+const readReadings = (value: unknown, field: string): Record<string, LabReading> => {
+  const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : null;
+  if (!entries || entries.length > MAX_ITEMS) throw new Error(`"${field}" must have up to ${MAX_ITEMS} readings`);
+  for (const [label, reading] of entries) {
+    const ok = reading === null || ['string', 'number', 'boolean'].includes(typeof reading);
+    if (!ok || label.length > MAX_TEXT_LENGTH || String(reading).length > MAX_TEXT_LENGTH) throw new Error(`"${field}.${label}" is not a valid reading`);
+  }
+  return value as Record<string, LabReading>;
+};
+
+// Check an experiment sent to the proxy
+export const validateExperimentRecord = (value: unknown): ExperimentRecord => {
+  const data = (value ?? {}) as Record<string, unknown>;
+  const text = (field: string) => {
+    const s = data[field];
+    if (typeof s !== 'string' || s.length > MAX_TEXT_LENGTH) throw new Error(`"${field}" must be a string of up to ${MAX_TEXT_LENGTH} characters`);
+    return s;
+  };
+  return {
+    lab: text('lab'),
+    title: text('title'),
+    prediction: text('prediction'),
+    procedure: readStringList(data.procedure, 'procedure'),
+    inputs: readReadings(data.inputs, 'inputs'),
+    results: readReadings(data.results, 'results'),
+    findings: readStringList(data.findings, 'findings'),
+    limitations: readStringList(data.limitations, 'limitations'),
+  };
+};
+
+// Offline fallback: a report assembled from the lab's own wording, for the student to complete
+export const writeTemplateDraft = (experiment: ExperimentRecord): ReportDraft => {
+  const inputs = Object.entries(experiment.inputs).map(([label, value]) => `${label} = ${formatReading(value)}`);
+  return {
+    title: `${experiment.lab}: ${experiment.title}`,
+    hypothesis: experiment.prediction,
+    method: `${experiment.procedure.join(' ')} Settings: ${inputs.join('; ')}.`,
+    discussion: [
+      ...experiment.findings,
+      'Explain in your own words whether the results support the hypothesis, and why any difference appears.',
+    ].join(' '),
+    sourcesOfError: experiment.limitations,
+  };
+};
+
+export const assembleReport = (draft: ReportDraft, experiment: ExperimentRecord): LabReport => ({
+  ...draft,
+  lab: experiment.lab,
+  date: new Date().toISOString().slice(0, 10),
+  results: Object.entries(experiment.results).map(([quantity, value]) => ({ quantity, value: formatReading(value) })),
+});
+
+// --- Export ---
+
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const reportToMarkdown = (report: LabReport): string => [
+  `# ${report.title}`,
+  '',
+  `*${report.lab} · ${report.date}*`,
+  '',
+  '## Hypothesis',
+  '',
+  report.hypothesis,
+  '',
+  '## Method',
+  '',
+  report.method,
+  '',
+  '## Results',
+  '',
+  '| Quantity | Value |',
+  '| --- | --- |',
+  ...report.results.map((row) => `| ${tableCell(row.quantity)} | ${tableCell(row.value)} |`),
+  '',
+  '## Discussion',
+  '',
+  report.discussion,
+  '',
+  '## Sources of error',
+  '',
+  ...report.sourcesOfError.filter((s) => s.trim()).map((s) => `- ${s}`),
+  '',
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n\s*\n/).map((p) => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br>')}</p>`).join('');
+
+// Standalone printable page, for "Save as PDF" in the browser's print dialog
+export const reportToHtml = (report: LabReport): string => `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 42rem; margin: 2rem auto; color: #111; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.6rem; border-bottom: 1px solid #ccc; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { border: 1px solid #ccc; padding: 0.3rem 0.5rem; text-align: left; }
+  .meta { color: #555; font-style: italic; }
+</style></head><body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(report.lab)} · ${escapeHtml(report.date)}</p>
+<h2>Hypothesis</h2>${paragraphs(report.hypothesis)}
+<h2>Method</h2>${paragraphs(report.method)}
+<h2>Results</h2>
+<table><tr><th>Quantity</th><th>Value</th></tr>
+${report.results.map((row) => `<tr><td>${escapeHtml(row.quantity)}</td><td>${escapeHtml(row.value)}</td></tr>`).join('\n')}
+</table>
+<h2>Discussion</h2>${paragraphs(report.discussion)}
+<h2>Sources of error</h2>
+<ul>${report.sourcesOfError.filter((s) => s.trim()).map((s) => `<li>${escapeHtml(s)}</li>`).join('')}</ul>
+</body></html>`;
+
+export const reportFilename = (report: LabReport, extension: string) =>
+  `${report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'lab-report'}.${extension}`;
@@ -0,0 +1,77 @@
+import { HttpStatusError, readLines } from './requestControl';
+import { LabChatProvider, buildLabSystemPrompt } from './labChat';
+import { LabReportProvider, buildReportPrompt, validateReportDraft } from './labReport';
+import { EngineeringDataProvider, LocalModelConfig, buildEngineeringPrompt, parseEngineeringJson, parseJsonReply } from './engineeringProvider';
+
+// A model served on the local network: any OpenAI-compatible chat completions endpoint
+// (Ollama's /v1, LM Studio, llama.cpp server, vLLM) or Ollama's native /api/chat.
+
+const JSON_SYSTEM_PROMPT = 'You are an aerospace engineering assistant. Reply with a single JSON object and nothing else.';
+
+// One non-streaming completion in JSON mode; returns the reply text
+const requestJsonCompletion = async (config: LocalModelConfig, prompt: string, signal?: AbortSignal): Promise<string> => {
+  const messages = [
+    { role: 'system', content: JSON_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+
+  const ollama = config.localApi === 'ollama';
+  const response = await fetch(ollama ? `${config.localUrl}/api/chat` : `${config.localUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      ollama
+        ? { model: config.localModel, messages, format: 'json', stream: false, options: { temperature: 0 } }
+        : { model: config.localModel, messages, response_format: { type: 'json_object' }, temperature: 0 }
+    ),
+  });
+  if (!response.ok) throw new HttpStatusError(`Local model returned HTTP ${response.status}`, response.status);
+
+  const data = await response.json();
+  const text: string | undefined = ollama ? data?.message?.content : data?.choices?.[0]?.message?.content;
+  if (!text) throw new Error('Empty response from local model');
+  return text;
+};
+
+export const createLocalModelProvider = (config: LocalModelConfig): EngineeringDataProvider => ({
+  id: 'local',
+  label: `Local (${config.localModel})`,
+  model: config.localModel,
+  getEngineeringData: async (bodyName, signal) =>
+    parseEngineeringJson(await requestJsonCompletion(config, buildEngineeringPrompt(bodyName), signal)),
+});
+
+export const createLocalReportProvider = (config: LocalModelConfig): LabReportProvider => ({
+  id: 'local',
+  label: `Local (${config.localModel})`,
+  writeReport: async (experiment, signal) =>
+    validateReportDraft(parseJsonReply(await requestJsonCompletion(config, buildReportPrompt(experiment), signal))),
+});
+
+// Streaming chat: OpenAI-compatible servers send server-sent events, Ollama sends one JSON object per line
+export const createLocalChatProvider = (config: LocalModelConfig): LabChatProvider => ({
+  label: `Local (${config.localModel})`,
+  streamReply: async function* (messages, labContext, signal) {
+    const ollama = config.localApi === 'ollama';
+    const response = await fetch(ollama ? `${config.localUrl}/api/chat` : `${config.localUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.localModel,
+        messages: [{ role: 'system', content: buildLabSystemPrompt(labContext) }, ...messages],
+        stream: true,
+      }),
+    });
+    if (!response.ok) throw new HttpStatusError(`Local model returned HTTP ${response.status}`, response.status);
+
+    for await (const line of readLines(response)) {
+      const payload = ollama ? line.trim() : line.replace(/^data:\s*/, '').trim();
+      if (!payload || payload === '[DONE]') continue;
+      const data = JSON.parse(payload);
+      const text: string | undefined = ollama ? data?.message?.content : data?.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+});
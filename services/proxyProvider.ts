@@ -0,0 +1,94 @@
+import { EngineeringDataProvider, ProviderConfig } from './engineeringProvider';
+import { validateEngineeringInfo } from './engineeringSchema';
+import { HttpStatusError, isAbortError, readTextStream } from './requestControl';
+import { LabChatProvider } from './labChat';
+import { LabReportProvider, validateReportDraft } from './labReport';
+
+const MODEL_STORAGE_KEY = 'aeroverse-proxy-model';
+
+const rememberedModel = () => {
+  try {
+    return localStorage.getItem(MODEL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+// Engineering data from the lab proxy (server/index.ts), which holds the Gemini key and rate-limits clients.
+// Answers are cached under the model the proxy runs, so fixture answers never pass for Gemini's or the reverse.
+export const createProxyProvider = (config: Pick<ProviderConfig, 'proxyUrl'>): EngineeringDataProvider => {
+  let upstreamModel: string | null = null;
+
+  const learnModel = (model: unknown) => {
+    if (typeof model !== 'string' || !model) return;
+    upstreamModel = model;
+    try {
+      localStorage.setItem(MODEL_STORAGE_KEY, model);
+    } catch {
+      // Storage unavailable: the model is still known for this session
+    }
+  };
+
+  return {
+    id: 'proxy',
+    label: 'Lab Proxy',
+    model: 'proxy',
+    resolveModel: async (signal) => {
+      if (upstreamModel) return upstreamModel;
+      try {
+        const response = await fetch(`${config.proxyUrl}/api/health`, { signal });
+        const data = await response.json().catch(() => null);
+        if (response.ok) learnModel(data?.model);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+      }
+      // With the proxy down, answers cached from the model it last ran can still be shown
+      return upstreamModel ?? rememberedModel() ?? 'proxy';
+    },
+    getEngineeringData: async (bodyName, signal) => {
+      const response = await fetch(`${config.proxyUrl}/api/planet-info?name=${encodeURIComponent(bodyName)}`, { signal });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new HttpStatusError(data?.error ?? `Lab proxy returned HTTP ${response.status}`, response.status);
+      }
+      learnModel(data?.model);
+      return validateEngineeringInfo(data?.info);
+    },
+  };
+};
+
+// The proxy streams the reply as plain text; errors before the first chunk come back as JSON
+export const createProxyChatProvider = (config: Pick<ProviderConfig, 'proxyUrl'>): LabChatProvider => ({
+  label: 'Lab Proxy',
+  streamReply: async function* (messages, labContext, signal) {
+    const response = await fetch(`${config.proxyUrl}/api/chat`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages, context: labContext }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new HttpStatusError(data?.error ?? `Lab proxy returned HTTP ${response.status}`, response.status);
+    }
+    yield* readTextStream(response);
+  },
+});
+
+export const createProxyReportProvider = (config: Pick<ProviderConfig, 'proxyUrl'>): LabReportProvider => ({
+  id: 'proxy',
+  label: 'Lab Proxy',
+  writeReport: async (experiment, signal) => {
+    const response = await fetch(`${config.proxyUrl}/api/report`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ experiment }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new HttpStatusError(data?.error ?? `Lab proxy returned HTTP ${response.status}`, response.status);
+    }
+    return validateReportDraft(data?.report);
+  },
+});
@@ -0,0 +1,113 @@
+// Cancellation and retry helpers for network requests
+
+export const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => (error as { name?: unknown } | null)?.name === 'AbortError';
+
+// HTTP failure that carries its status, so callers can tell transient errors from permanent ones
+export class HttpStatusError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+// 502 is left out: the lab proxy answers 502 when its upstream provider fails permanently (e.g. a bad key)
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 503, 504];
+
+// Network failures and rate limits / server errors are worth retrying; bad keys and bad replies are not.
+// Works for any error with a numeric status, including the Gemini SDK's ApiError.
+export const isTransientError = (error: unknown) => {
+  if (isAbortError(error)) return false;
+  if (error instanceof TypeError) return true; // fetch() rejects with TypeError when the network is unreachable
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && TRANSIENT_STATUSES.includes(status);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number; // Doubled after every failed attempt
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Run a request, retrying transient failures with exponential backoff and a little jitter
+export const withRetry = async <T,>(
+  request: (signal?: AbortSignal) => Promise<T>,
+  { signal, retries = 3, baseDelayMs = 500, shouldRetry = isTransientError }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request(signal);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !shouldRetry(error)) throw error;
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.25, signal);
+    }
+  }
+};
+
+// Settle with `promise`, or reject with an AbortError as soon as `signal` aborts. `onAbort` runs in that case,
+// which lets several callers share one underlying request and cancel it only when all of them have given up.
+export const raceAbort = <T,>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort?: () => void): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(createAbortError());
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    promise.then(
+      (value) => {
+        signal?.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      (error) => {
+        signal?.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+
+// Decoded text chunks of a streaming response body, as they arrive
+export async function* readTextStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Complete lines of a streaming response (server-sent events, NDJSON)
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const text of readTextStream(response)) {
+    buffer += text;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
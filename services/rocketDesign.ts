@@ -0,0 +1,171 @@
+import { CelestialBodyData, RocketStage, RocketEngineData, PropellantData } from '../types';
+import { BODY_CATALOG, PROPELLANTS, ROCKET_ENGINES, getEngineById, getPropellantById } from '../constants';
+import { AscentStage, AscentVehicle, ThrottleSchedule, airPressure, stageThrust } from './ascentSimulation';
+
+// Stage stacks for the Rocket Lab: limits, the per-stage rocket equation, and the compact form kept in the URL.
+
+export const MAX_STAGES = 4;
+export const STAGE_LIMITS = {
+  dryMass: { min: 200, max: 20000, step: 100 },
+  propellantMass: { min: 500, max: 200000, step: 500 },
+  engineCount: { min: 1, max: 9, step: 1 },
+};
+
+export const DEFAULT_STACK: RocketStage[] = [
+  { dryMass: 2500, propellantMass: 30000, engineId: 'merlin-1d', engineCount: 1 },
+  { dryMass: 2000, propellantMass: 5000, engineId: 'rl10b-2', engineCount: 1 },
+];
+
+export const G0 = 9.80665; // m/s², turns Isp in seconds into exhaust velocity, and accelerations into g
+export const SEA_LEVEL_PRESSURE = 101325; // Pa, where sea-level Isp is quoted
+
+export const stageEngine = (stage: RocketStage): RocketEngineData => getEngineById(stage.engineId) ?? ROCKET_ENGINES[0];
+
+export const enginePropellant = (engine: RocketEngineData): PropellantData => getPropellantById(engine.propellantId) ?? PROPELLANTS[0];
+
+// Nozzle exit area implied by the drop from vacuum to sea-level Isp, since F = ṁ·vₑ − pₐ·Aₑ. Engines with no
+// sea-level rating are given the area at which their thrust reaches zero at sea level.
+const engineExitArea = (engine: RocketEngineData) =>
+  (engine.massFlow * G0 * (engine.vacuumIsp - (engine.seaLevelIsp ?? 0))) / SEA_LEVEL_PRESSURE;
+
+// Isp at an ambient pressure in Pa, from the same linear model
+export const engineIsp = (engine: RocketEngineData, ambientPressure: number) =>
+  Math.max(0, engine.vacuumIsp - (engine.vacuumIsp - (engine.seaLevelIsp ?? 0)) * (ambientPressure / SEA_LEVEL_PRESSURE));
+
+// Tanks and structure plus the engines
+export const stageDryMass = (stage: RocketStage) => stage.dryMass + stage.engineCount * stageEngine(stage).mass;
+
+export const toAscentStage = (stage: RocketStage): AscentStage => {
+  const engine = stageEngine(stage);
+  return {
+    dryMass: stageDryMass(stage),
+    propellantMass: stage.propellantMass,
+    flowRate: engine.massFlow * stage.engineCount,
+    exhaustVelocity: engine.vacuumIsp * G0,
+    exitArea: engineExitArea(engine) * stage.engineCount,
+    minThrottle: engine.minThrottle,
+    canShutDown: engine.propellantId !== 'solid', // Once lit, a solid motor burns until it is empty
+  };
+};
+
+export const DRAG_COEFFICIENT = 0.3; // Typical for a slender rocket below Mach 1
+export const REFERENCE_AREA = Math.PI * 0.5 * 0.5; // m², 1 m diameter body
+
+export const toAscentVehicle = (stack: RocketStage[], throttle?: ThrottleSchedule): AscentVehicle => ({
+  stages: stack.map(toAscentStage),
+  dragCoefficient: DRAG_COEFFICIENT,
+  referenceArea: REFERENCE_AREA,
+  throttle,
+});
+
+// Thrust of the whole stage at an ambient pressure in Pa
+export const thrustAt = (stage: RocketStage, ambientPressure: number) => stageThrust(toAscentStage(stage), ambientPressure);
+
+export interface StageSummary {
+  initialMass: number; // kg, this stage fuelled with everything above it
+  finalMass: number; // kg, at this stage's burnout
+  flowRate: number; // kg/s
+  thrust: number; // N in vacuum
+  burnTime: number; // s
+  deltaV: number; // m/s in vacuum, Tsiolkovsky: vₑ·ln(m₀/m_f)
+  idealDistance: number; // m covered during the burn in free space, counting the speed carried in
+}
+
+// The rocket equation applied stage by stage, bottom first
+export const summarizeStack = (stack: RocketStage[]): StageSummary[] => {
+  let speed = 0;
+  return stack.map((stage, i) => {
+    const { dryMass, propellantMass, flowRate, exhaustVelocity } = toAscentStage(stage);
+    const upper = stack.slice(i + 1).reduce((sum, s) => sum + stageDryMass(s) + s.propellantMass, 0);
+    const initialMass = dryMass + propellantMass + upper;
+    const finalMass = initialMass - propellantMass;
+    const burnTime = propellantMass / flowRate;
+    const deltaV = exhaustVelocity * Math.log(initialMass / finalMass);
+    // ∫v dt over a constant-flow burn: vₑ·t − vₑ·(m_f/ṁ)·ln(m₀/m_f)
+    const idealDistance = speed * burnTime + exhaustVelocity * burnTime - exhaustVelocity * (finalMass / flowRate) * Math.log(initialMass / finalMass);
+    speed += deltaV;
+    return { initialMass, finalMass, flowRate, thrust: flowRate * exhaustVelocity, burnTime, deltaV, idealDistance };
+  });
+};
+
+// The same burns with every empty stage carried to the end, for comparison with staging
+export const unstagedDeltaV = (stack: RocketStage[]): number => {
+  let mass = stack.reduce((sum, s) => sum + stageDryMass(s) + s.propellantMass, 0);
+  return stack.reduce((total, stage) => {
+    const finalMass = mass - stage.propellantMass;
+    const deltaV = stageEngine(stage).vacuumIsp * G0 * Math.log(mass / finalMass);
+    mass = finalMass;
+    return total + deltaV;
+  }, 0);
+};
+
+// --- Launch sites ---
+
+// Anywhere with a surface to stand on; the giant planets use their 1 bar level, as in the Gravity Lab
+export const LAUNCH_SITES = BODY_CATALOG.filter((body) => body.type !== 'star');
+
+export interface LaunchAssessment {
+  gravity: number; // m/s² at the pad
+  surfacePressure: number; // Pa at the pad
+  thrustToWeight: number[]; // Per stage against surface gravity: the first at the pad's pressure, the rest in vacuum
+  liftoff: boolean;
+  hoverThrottle: number; // Share of liftoff thrust that just balances the weight; above 1 the rocket can't hover
+  orbitAltitude: number; // m, lowest practical circular orbit
+  orbitalSpeed: number; // m/s at that altitude
+  deltaVToOrbit: number; // m/s, the minimum: a Hohmann transfer from the surface with no gravity or drag losses
+}
+
+export const assessLaunch = (stack: RocketStage[], body: CelestialBodyData): LaunchAssessment => {
+  const gravity = body.surfaceGravity;
+  const surfacePressure = airPressure(body, 0);
+  const summaries = summarizeStack(stack);
+  const thrustToWeight = summaries.map((summary, i) =>
+    (i === 0 ? thrustAt(stack[0], surfacePressure) : summary.thrust) / (summary.initialMass * gravity));
+
+  // Clear of the atmosphere (25 scale heights, about 210 km for Earth) or, on airless bodies, of the terrain
+  const gm = body.gm * 1e9;
+  const radius = body.equatorialRadiusKm * 1000;
+  const orbitAltitude = body.atmosphere ? 25 * body.atmosphere.scaleHeightKm * 1000 : 0.05 * radius;
+  const orbit = radius + orbitAltitude;
+  const orbitalSpeed = Math.sqrt(gm / orbit);
+  // Hohmann transfer: a burn along the ground onto an ellipse that just reaches the orbit, then circularise there
+  const departure = Math.sqrt(gm / radius) * Math.sqrt((2 * orbit) / (radius + orbit));
+  const arrival = orbitalSpeed * Math.sqrt((2 * radius) / (radius + orbit));
+  const deltaVToOrbit = departure + orbitalSpeed - arrival;
+
+  return {
+    gravity,
+    surfacePressure,
+    thrustToWeight,
+    liftoff: thrustToWeight[0] > 1,
+    hoverThrottle: 1 / thrustToWeight[0],
+    orbitAltitude,
+    orbitalSpeed,
+    deltaVToOrbit,
+  };
+};
+
+// --- URL form: "2500-30000-merlin-1d-1_2000-5000-rl10b-2-1" ---
+
+export const encodeStack = (stack: RocketStage[]) =>
+  stack.map((s) => [s.dryMass, s.propellantMass, s.engineId, s.engineCount].join('-')).join('_');
+
+const inRange = (value: number, { min, max }: { min: number; max: number }) => Number.isFinite(value) && value >= min && value <= max;
+
+// null for a hand-edited link that doesn't describe a valid stack
+export const decodeStack = (raw: string): RocketStage[] | null => {
+  const parts = raw.split('_');
+  if (parts.length < 1 || parts.length > MAX_STAGES) return null;
+  const stack: RocketStage[] = [];
+  for (const part of parts) {
+    // Engine ids contain '-' themselves, so the masses and count are read from the ends
+    const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)-(.+)-(\d+)$/.exec(part);
+    if (!match) return null;
+    const [, dry, propellant, engineId, count] = match;
+    const stage = { dryMass: Number(dry), propellantMass: Number(propellant), engineId, engineCount: Number(count) };
+    if (!inRange(stage.dryMass, STAGE_LIMITS.dryMass) || !inRange(stage.propellantMass, STAGE_LIMITS.propellantMass)) return null;
+    if (!getEngineById(engineId) || !Number.isInteger(stage.engineCount) || !inRange(stage.engineCount, STAGE_LIMITS.engineCount)) return null;
+    stack.push(stage);
+  }
+  return stack;
+};
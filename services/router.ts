@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ViewState } from '../types';
+
+// Hash-based routing: #/<view>?key=value&... so links work on any static host.
+// Changing view pushes a history entry; lab parameters replace the current one (debounced),
+// so back/forward steps between views and setups rather than through every slider tick.
+
+const VIEW_PATHS: Record<ViewState, string> = {
+  [ViewState.LANDING]: '',
+  [ViewState.SOLAR_SYSTEM]: 'solar-system',
+  [ViewState.SATELLITE_LAB]: 'satellite-lab',
+  [ViewState.ROCKET_LAB]: 'rocket-lab',
+  [ViewState.GRAVITY_LAB]: 'gravity-lab',
+  [ViewState.SOLAR_LAB]: 'solar-power-lab',
+  [ViewState.ORBITAL_LAB]: 'orbital-lab',
+};
+
+// Fired after programmatic navigation; the browser fires popstate for back/forward
+const ROUTE_CHANGE_EVENT = 'routechange';
+
+// Delay before a parameter change is written to the URL (slider drags fire continuously)
+const PARAM_WRITE_DELAY_MS = 250;
+
+export interface Route {
+  view: ViewState;
+  params: URLSearchParams;
+}
+
+export const parseRoute = (hash: string = window.location.hash): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const view = (Object.keys(VIEW_PATHS) as ViewState[]).find((v) => VIEW_PATHS[v] === path) ?? ViewState.LANDING;
+  return { view, params: new URLSearchParams(query) };
+};
+
+export const buildHash = (view: ViewState, params: URLSearchParams = new URLSearchParams()): string => {
+  const query = params.toString();
+  return `#/${VIEW_PATHS[view]}${query ? `?${query}` : ''}`;
+};
+
+const writeHash = (hash: string, replace: boolean) => {
+  if (hash === window.location.hash) return;
+  if (replace) window.history.replaceState(null, '', hash);
+  else window.history.pushState(null, '', hash);
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+// Open a view with a fresh set of parameters
+export const navigate = (view: ViewState, params: Record<string, string> = {}) => {
+  writeHash(buildHash(view, new URLSearchParams(params)), false);
+};
+
+// Set (or with `null`, remove) one parameter of the current view
+export const setRouteParam = (key: string, value: string | null, replace: boolean = true) => {
+  const { view, params } = parseRoute();
+  if (value === null) params.delete(key);
+  else params.set(key, value);
+  writeHash(buildHash(view, params), replace);
+};
+
+// Current route, re-rendering on navigation and browser back/forward
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(() => parseRoute());
+
+  useEffect(() => {
+    const update = () => setRoute(parseRoute());
+    window.addEventListener('popstate', update);
+    window.addEventListener(ROUTE_CHANGE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+};
+
+interface UrlStateOptions<T> {
+  push?: boolean; // Create a history entry for each change instead of replacing the current one
+  parse?: (raw: string) => T | null; // Reject or clamp values coming from a hand-edited link
+}
+
+// Accept numbers within a slider's range, clamping anything outside it
+export const numberInRange = (min: number, max: number) => (raw: string): number | null => {
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : null;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]) => (raw: string): T | null =>
+  (values as readonly string[]).includes(raw) ? (raw as T) : null;
+
+/**
+ * `useState` mirrored into a URL parameter of the current view. The value is read from the link on
+ * mount and on back/forward; the default is left out of the URL to keep links short.
+ */
+export const useUrlState = <T extends string | number>(
+  key: string,
+  fallback: T,
+  options: UrlStateOptions<T> = {}
+): [T, (value: T) => void] => {
+  const { push = false } = options;
+  const parseRef = useRef(options.parse);
+  parseRef.current = options.parse;
+
+  const read = useCallback((): T => {
+    const raw = parseRoute().params.get(key);
+    if (raw === null) return fallback;
+    const parsed = parseRef.current
+      ? parseRef.current(raw)
+      : typeof fallback === 'number'
+        ? (Number.isFinite(parseFloat(raw)) ? parseFloat(raw) : null)
+        : raw;
+    return (parsed ?? fallback) as T;
+  }, [key, fallback]);
+
+  const [value, setValue] = useState<T>(read);
+  const pendingWrite = useRef<number | null>(null);
+
+  // Follow the URL when it changes underneath us (back/forward, another component navigating)
+  useEffect(() => {
+    const update = () => {
+      if (pendingWrite.current === null) setValue(read());
+    };
+    window.addEventListener('popstate', update);
+    window.addEventListener(ROUTE_CHANGE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, update);
+      if (pendingWrite.current !== null) window.clearTimeout(pendingWrite.current);
+    };
+  }, [read]);
+
+  const set = useCallback((next: T) => {
+    setValue(next);
+    const write = () => setRouteParam(key, next === fallback ? null : String(next), !push);
+    if (push) {
+      write();
+      return;
+    }
+    if (pendingWrite.current !== null) window.clearTimeout(pendingWrite.current);
+    pendingWrite.current = window.setTimeout(() => {
+      pendingWrite.current = null;
+      write();
+    }, PARAM_WRITE_DELAY_MS);
+  }, [key, fallback, push]);
+
+  return [value, set];
+};
@@ -0,0 +1,86 @@
+import { CelestialBodyData } from '../types';
+import { SOLAR_SYSTEM_DATA } from '../constants';
+
+export type ScaleMode = 'visual' | 'log' | 'true';
+
+export const SCALE_MODES: { id: ScaleMode; label: string; description: string }[] = [
+  { id: 'visual', label: 'Visual', description: 'Hand-tuned sizes and spacing so every planet is easy to see.' },
+  { id: 'log', label: 'Log Distance', description: 'Distance from the Sun on a logarithmic axis; the outer planets stop dominating.' },
+  { id: 'true', label: 'True Scale', description: 'Radii and distances in proportion. Bodies are specks: follow the labels.' },
+];
+
+export const KM_PER_AU = 149597870.7;
+
+// True scale: 1 AU = 10 scene units, so Neptune orbits ~300 units out
+export const TRUE_SCALE_UNITS_PER_AU = 10;
+
+// Log scale: d = LOG_SCALE_K * log10(1 + au / LOG_SCALE_A0), chosen so Neptune lands where it does in the visual mode
+const LOG_SCALE_A0 = 0.1;
+const LOG_SCALE_K = 90 / Math.log10(1 + 30.07 / LOG_SCALE_A0);
+
+// (AU, scene distance) pairs through the Sun and the major planets, for the visual mode
+const VISUAL_DISTANCE_KNOTS: [number, number][] = [
+  [0, 0],
+  ...SOLAR_SYSTEM_DATA
+    .filter((body) => body.type === 'planet' && body.elements)
+    .map((body): [number, number] => [body.elements!.semiMajorAxis, body.distance])
+    .sort((p, q) => p[0] - q[0]),
+];
+
+/**
+ * Visual scene radius for a heliocentric distance in AU, interpolated between the planets' orbits
+ * (and extrapolated past Neptune) so small bodies sit in the right place relative to the planets.
+ */
+export const auToSceneDistance = (au: number): number => {
+  const knots = VISUAL_DISTANCE_KNOTS;
+  let i = 1;
+  while (i < knots.length - 1 && au > knots[i][0]) i++;
+  const [a0, d0] = knots[i - 1];
+  const [a1, d1] = knots[i];
+  return d0 + ((au - a0) * (d1 - d0)) / (a1 - a0);
+};
+
+// Scene radius for a heliocentric distance (AU) in the given mode
+export const getSceneDistance = (au: number, mode: ScaleMode): number => {
+  switch (mode) {
+    case 'true':
+      return au * TRUE_SCALE_UNITS_PER_AU;
+    case 'log':
+      return LOG_SCALE_K * Math.log10(1 + au / LOG_SCALE_A0);
+    default:
+      return auToSceneDistance(au);
+  }
+};
+
+// Rendered radius of a body; only the true mode uses physical sizes
+export const getBodySceneRadius = (body: CelestialBodyData, mode: ScaleMode): number =>
+  mode === 'true' ? (body.radiusKm / KM_PER_AU) * TRUE_SCALE_UNITS_PER_AU : body.radius;
+
+// Radius of a moon's orbit around its parent
+export const getMoonSceneDistance = (moon: CelestialBodyData, mode: ScaleMode): number =>
+  mode === 'true' && moon.moonOrbit
+    ? (moon.moonOrbit.semiMajorAxisKm / KM_PER_AU) * TRUE_SCALE_UNITS_PER_AU
+    : moon.distance;
+
+export interface SceneCameraLimits {
+  minDistance: number;
+  maxDistance: number;
+  near: number;
+  far: number;
+  overview2D: [number, number, number];
+  overview3D: [number, number, number];
+}
+
+export const CAMERA_LIMITS: Record<ScaleMode, SceneCameraLimits> = {
+  visual: { minDistance: 5, maxDistance: 300, near: 0.1, far: 2000, overview2D: [0, 140, 0], overview3D: [0, 60, 100] },
+  log: { minDistance: 5, maxDistance: 300, near: 0.1, far: 2000, overview2D: [0, 140, 0], overview3D: [0, 60, 100] },
+  true: { minDistance: 0.0001, maxDistance: 1500, near: 0.00001, far: 10000, overview2D: [0, 500, 0], overview3D: [0, 220, 360] },
+};
+
+// Camera standoff when locked onto a body: a few radii out, or wide enough to frame its moons
+export const getFocusDistance = (body: CelestialBodyData, moons: CelestialBodyData[], mode: ScaleMode): number => {
+  const radius = getBodySceneRadius(body, mode);
+  const outermostMoon = Math.max(0, ...moons.map((moon) => getMoonSceneDistance(moon, mode)));
+  const standoff = mode === 'true' ? radius * 6 : radius * 4 + 8;
+  return Math.max(standoff, outermostMoon * 2.2);
+};
@@ -0,0 +1,175 @@
+import { J2000_EPOCH_MS, MS_PER_DAY } from './ephemeris';
+import { ScaleMode, getSceneDistance } from './sceneScale';
+
+// Synthetic small-body populations (asteroid belt, Kuiper belt). Orbits are sampled from
+// simplified versions of the observed element distributions and propagated as pure two-body
+// Kepler orbits, packed into flat arrays so thousands can be updated every frame.
+
+const DEG = Math.PI / 180;
+const TWO_PI = Math.PI * 2;
+const GAUSS_K = 0.01720209895; // Mean motion of a 1 AU orbit (rad/day)
+
+// Per-particle stride in the packed element array
+// [a, e, n, M0, Px, Py, Pz, Qx, Qy, Qz]
+const STRIDE = 10;
+
+export interface SmallBodyPopulation {
+  count: number;
+  elements: Float64Array;
+}
+
+interface SampledOrbit {
+  a: number; // AU
+  e: number;
+  i: number; // deg
+}
+
+// Deterministic PRNG (mulberry32) so the belts look the same on every load
+const createRandom = (seed: number) => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Rayleigh-distributed sample, the usual model for small-body eccentricities and inclinations
+const rayleigh = (random: () => number, sigma: number) => sigma * Math.sqrt(-2 * Math.log(1 - random()));
+
+// Main belt resonances with Jupiter (AU) that clear the Kirkwood gaps
+const KIRKWOOD_GAPS = [
+  { a: 2.502, halfWidth: 0.025 }, // 3:1
+  { a: 2.825, halfWidth: 0.015 }, // 5:2
+  { a: 2.958, halfWidth: 0.012 }, // 7:3
+  { a: 3.279, halfWidth: 0.03 }, // 2:1
+];
+
+const sampleMainBelt = (random: () => number): SampledOrbit => {
+  let a: number;
+  do {
+    // Density peaks in the inner-middle belt and thins outward
+    a = 2.1 + 1.2 * Math.pow(random(), 1.3);
+  } while (KIRKWOOD_GAPS.some((gap) => Math.abs(a - gap.a) < gap.halfWidth));
+
+  return {
+    a,
+    e: Math.min(rayleigh(random, 0.08), 0.35),
+    i: Math.min(rayleigh(random, 7), 35),
+  };
+};
+
+const sampleKuiperBelt = (random: () => number): SampledOrbit => {
+  const family = random();
+
+  if (family < 0.25) {
+    // Plutinos: trapped in the 3:2 resonance with Neptune
+    return {
+      a: 39.4 + (random() - 0.5) * 0.6,
+      e: 0.1 + random() * 0.2,
+      i: Math.min(rayleigh(random, 10), 40),
+    };
+  }
+  if (family < 0.8) {
+    // Classical belt: cold (flat, near-circular) and hot components, inside the 2:1 resonance edge
+    const cold = random() < 0.6;
+    return {
+      a: 42 + random() * 5.5,
+      e: Math.min(rayleigh(random, cold ? 0.04 : 0.08), 0.2),
+      i: Math.min(rayleigh(random, cold ? 2 : 12), 40),
+    };
+  }
+  // Scattered disk: large, eccentric, steeply inclined orbits
+  return {
+    a: 50 + Math.pow(random(), 2) * 40,
+    e: 0.25 + random() * 0.3,
+    i: Math.min(rayleigh(random, 15), 50),
+  };
+};
+
+const generatePopulation = (
+  count: number,
+  seed: number,
+  sample: (random: () => number) => SampledOrbit
+): SmallBodyPopulation => {
+  const random = createRandom(seed);
+  const elements = new Float64Array(count * STRIDE);
+
+  for (let k = 0; k < count; k++) {
+    const { a, e, i } = sample(random);
+    const node = random() * TWO_PI;
+    const peri = random() * TWO_PI;
+    const inc = i * DEG;
+
+    const cosW = Math.cos(peri), sinW = Math.sin(peri);
+    const cosN = Math.cos(node), sinN = Math.sin(node);
+    const cosI = Math.cos(inc), sinI = Math.sin(inc);
+
+    const o = k * STRIDE;
+    elements[o] = a;
+    elements[o + 1] = e;
+    elements[o + 2] = GAUSS_K / Math.pow(a, 1.5);
+    elements[o + 3] = random() * TWO_PI;
+    // Perifocal basis (see getPerifocalBasis), precomputed once per particle
+    elements[o + 4] = cosW * cosN - sinW * sinN * cosI;
+    elements[o + 5] = cosW * sinN + sinW * cosN * cosI;
+    elements[o + 6] = sinW * sinI;
+    elements[o + 7] = -sinW * cosN - cosW * sinN * cosI;
+    elements[o + 8] = -sinW * sinN + cosW * cosN * cosI;
+    elements[o + 9] = cosW * sinI;
+  }
+
+  return { count, elements };
+};
+
+export const generateAsteroidBelt = (count: number, seed: number = 1801): SmallBodyPopulation =>
+  generatePopulation(count, seed, sampleMainBelt);
+
+export const generateKuiperBelt = (count: number, seed: number = 1992): SmallBodyPopulation =>
+  generatePopulation(count, seed, sampleKuiperBelt);
+
+/**
+ * Writes every particle's scene position at `timeMs` for a scale mode into `out` (x, y, z per particle,
+ * starting at index `offset` and advancing by `stride`), so it can target an instance matrix array directly.
+ */
+export const writePopulationPositions = (
+  population: SmallBodyPopulation,
+  timeMs: number,
+  out: Float32Array,
+  mode: ScaleMode = 'visual',
+  offset: number = 0,
+  stride: number = 3
+) => {
+  const days = (timeMs - J2000_EPOCH_MS) / MS_PER_DAY;
+  const el = population.elements;
+
+  for (let k = 0; k < population.count; k++) {
+    const o = k * STRIDE;
+    const a = el[o];
+    const e = el[o + 1];
+
+    // Kepler's equation; a few Newton steps are plenty for these eccentricities
+    const M = (el[o + 3] + el[o + 2] * days) % TWO_PI;
+    let E = M + e * Math.sin(M);
+    for (let iter = 0; iter < 4; iter++) {
+      E -= (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    }
+
+    const xp = a * (Math.cos(E) - e);
+    const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+    // Ecliptic position (AU)
+    const x = el[o + 4] * xp + el[o + 7] * yp;
+    const y = el[o + 5] * xp + el[o + 8] * yp;
+    const z = el[o + 6] * xp + el[o + 9] * yp;
+
+    // Same ecliptic-to-scene axes and radial mapping as the planets
+    const r = Math.sqrt(x * x + y * y + z * z);
+    const scale = getSceneDistance(r, mode) / r;
+    const p = offset + k * stride;
+    out[p] = x * scale;
+    out[p + 1] = z * scale;
+    out[p + 2] = -y * scale;
+  }
+};
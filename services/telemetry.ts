@@ -0,0 +1,73 @@
+import { AscentSample, StagingEvent } from './ascentSimulation';
+import { Dimension } from './units';
+
+// Sampled flight data from a simulated ascent: the channels the Rocket Lab charts, and the rows students
+// export for their own plots. Everything stays in SI.
+
+export type TelemetryChannel = 'thrust' | 'mass' | 'acceleration' | 'velocity' | 'altitude' | 'dynamicPressure';
+
+export const TELEMETRY_CHANNELS: { key: TelemetryChannel; label: string; dimension: Dimension; color: string }[] = [
+  { key: 'thrust', label: 'Thrust', dimension: 'force', color: '#f97316' },
+  { key: 'mass', label: 'Mass', dimension: 'mass', color: '#94a3b8' },
+  { key: 'acceleration', label: 'Acceleration', dimension: 'acceleration', color: '#facc15' },
+  { key: 'velocity', label: 'Velocity', dimension: 'velocity', color: '#22d3ee' },
+  { key: 'altitude', label: 'Altitude', dimension: 'length', color: '#4ade80' },
+  { key: 'dynamicPressure', label: 'Dynamic pressure', dimension: 'pressure', color: '#a855f7' },
+];
+
+export interface TelemetryRow extends AscentSample {
+  thrustDeltaV: number; // m/s gained from thrust alone so far, ∫F/m dt, before gravity and drag take their share
+  massRatioLog: number; // ln(m₀/m) for the firing stage, m₀ being the mass when it ignited
+}
+
+// Adds the columns for checking the rocket equation: within a stage in vacuum, thrustDeltaV rises as vₑ·massRatioLog
+export const toTelemetryRows = (samples: AscentSample[], separations: StagingEvent[]): TelemetryRow[] => {
+  let thrustDeltaV = 0;
+  let ignitionMass = samples[0]?.mass ?? 0;
+  return samples.map((sample, i) => {
+    const previous = samples[i - 1];
+    if (previous) {
+      // The last drop in the interval, should an empty stage and the one above it both go at once
+      const separation = separations.filter((event) => event.time > previous.time && event.time <= sample.time).pop();
+      if (!separation) {
+        // Trapezoid rule between samples
+        thrustDeltaV += ((previous.thrust / previous.mass + sample.thrust / sample.mass) / 2) * (sample.time - previous.time);
+      } else {
+        // Split at the separation, so neither stage's thrust is divided by the other's mass
+        thrustDeltaV += (previous.thrust / previous.mass) * (separation.time - previous.time)
+          + (sample.thrust / sample.mass) * (sample.time - separation.time);
+        ignitionMass = separation.mass; // At the moment of ignition, not at the next sample
+      }
+    }
+    return { ...sample, thrustDeltaV, massRatioLog: Math.log(ignitionMass / sample.mass) };
+  });
+};
+
+const COLUMNS: { key: keyof TelemetryRow; header: string }[] = [
+  { key: 'time', header: 'time_s' },
+  { key: 'stage', header: 'stage' },
+  { key: 'throttle', header: 'throttle' },
+  { key: 'altitude', header: 'altitude_m' },
+  { key: 'velocity', header: 'velocity_m_s' },
+  { key: 'acceleration', header: 'acceleration_m_s2' },
+  { key: 'mass', header: 'mass_kg' },
+  { key: 'thrust', header: 'thrust_N' },
+  { key: 'drag', header: 'drag_N' },
+  { key: 'gravity', header: 'gravity_m_s2' },
+  { key: 'dynamicPressure', header: 'dynamic_pressure_Pa' },
+  { key: 'thrustDeltaV', header: 'thrust_delta_v_m_s' },
+  { key: 'massRatioLog', header: 'ln_mass_ratio' },
+];
+
+// Stages are numbered from 1 in the export, as in the lab
+const cell = (row: TelemetryRow, key: keyof TelemetryRow) => (key === 'stage' ? row.stage + 1 : Number(row[key].toPrecision(8)));
+
+export const telemetryToCsv = (rows: TelemetryRow[]) =>
+  [COLUMNS.map((c) => c.header).join(','), ...rows.map((row) => COLUMNS.map((c) => cell(row, c.key)).join(','))].join('\n') + '\n';
+
+// Columns named as in the CSV, so a script can read either file
+export const telemetryToJson = (rows: TelemetryRow[], meta: Record<string, unknown>) => ({
+  ...meta,
+  columns: COLUMNS.map((c) => c.header),
+  samples: rows.map((row) => Object.fromEntries(COLUMNS.map((c) => [c.header, cell(row, c.key)]))),
+});
@@ -0,0 +1,126 @@
+import { ThrottleKeyframe, ThrottleProfile } from '../types';
+import { ThrottleSchedule } from './ascentSimulation';
+import { G0 } from './rocketDesign';
+
+// Throttle curves for the Rocket Lab: evaluating them, the presets, the profiles a student saves, and the compact
+// form kept in the URL.
+
+export const PROFILE_LIMITS = {
+  keyframes: 12,
+  time: { min: 0, max: 1800, step: 1 }, // s after launch; long enough for a slow upper stage to burn out
+  maxLoad: { min: 1.5, max: 10, step: 0.5 }, // g
+};
+
+export const FULL_THROTTLE: ThrottleProfile = { keyframes: [{ time: 0, throttle: 1, hold: false }], maxLoad: null };
+
+export interface NamedProfile {
+  name: string;
+  profile: ThrottleProfile;
+}
+
+const key = (time: number, throttle: number, hold = false): ThrottleKeyframe => ({ time, throttle, hold });
+
+export const PRESET_PROFILES: NamedProfile[] = [
+  { name: 'Full throttle', profile: FULL_THROTTLE },
+  {
+    // Ease off through the densest air around max-Q, then back to full
+    name: 'Max-Q bucket',
+    profile: { keyframes: [key(0, 1, true), key(25, 1), key(32, 0.6, true), key(55, 0.6), key(65, 1)], maxLoad: null },
+  },
+  { name: 'Crewed, 4 g limit', profile: { ...FULL_THROTTLE, maxLoad: 4 } },
+  {
+    name: 'Cutoff and relight',
+    profile: { keyframes: [key(0, 1, true), key(60, 0, true), key(90, 1)], maxLoad: null },
+  },
+];
+
+// Commanded throttle at a time after launch; before the first keyframe and after the last, its value holds
+export const throttleAt = ({ keyframes }: ThrottleProfile, time: number) => {
+  const next = keyframes.findIndex((k) => k.time > time);
+  if (next === -1) return keyframes[keyframes.length - 1].throttle;
+  if (next === 0) return keyframes[0].throttle;
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  if (from.hold) return from.throttle;
+  return from.throttle + ((to.throttle - from.throttle) * (time - from.time)) / (to.time - from.time);
+};
+
+export const toThrottleSchedule = (profile: ThrottleProfile): ThrottleSchedule => ({
+  command: (time) => throttleAt(profile, time),
+  end: profile.keyframes[profile.keyframes.length - 1].time,
+  maxLoad: profile.maxLoad === null ? null : profile.maxLoad * G0,
+});
+
+// "100% at 0 s held to 25 s, 60% at 32 s held to 55 s, 100% at 65 s; 4 g limit", for reports and the lab chat
+export const describeProfile = ({ keyframes, maxLoad }: ThrottleProfile) => {
+  const steps = keyframes.map((k, i) => {
+    const value = k.throttle === 0 ? 'cutoff' : `${Math.round(k.throttle * 100)}%`;
+    const next = keyframes[i + 1];
+    return `${value} at ${k.time} s${k.hold && next ? ` held to ${next.time} s` : ''}`;
+  });
+  return steps.join(', ') + (maxLoad === null ? '' : `; ${maxLoad} g limit`);
+};
+
+// --- URL form: "0-100h_25-100_32-60h_55-60_65-100_g4" ---
+
+export const encodeProfile = ({ keyframes, maxLoad }: ThrottleProfile) =>
+  [
+    ...keyframes.map((k) => `${k.time}-${Math.round(k.throttle * 100)}${k.hold ? 'h' : ''}`),
+    ...(maxLoad === null ? [] : [`g${maxLoad}`]),
+  ].join('_');
+
+// null for a hand-edited link that doesn't describe a valid profile
+export const decodeProfile = (raw: string): ThrottleProfile | null => {
+  const parts = raw.split('_');
+  let maxLoad: number | null = null;
+  if (parts[parts.length - 1].startsWith('g')) {
+    maxLoad = Number(parts.pop()!.slice(1));
+    if (!Number.isFinite(maxLoad) || maxLoad < PROFILE_LIMITS.maxLoad.min || maxLoad > PROFILE_LIMITS.maxLoad.max) return null;
+  }
+  if (parts.length < 1 || parts.length > PROFILE_LIMITS.keyframes) return null;
+
+  const keyframes: ThrottleKeyframe[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)-(\d+)(h?)$/.exec(part);
+    if (!match) return null;
+    const time = Number(match[1]);
+    const percent = Number(match[2]);
+    const previous = keyframes[keyframes.length - 1];
+    if (time > PROFILE_LIMITS.time.max || percent > 100) return null;
+    if (previous ? time <= previous.time : time !== 0) return null;
+    keyframes.push({ time, throttle: percent / 100, hold: match[3] === 'h' });
+  }
+  return { keyframes, maxLoad };
+};
+
+// --- Saved profiles (remembered in localStorage) ---
+
+const STORAGE_KEY = 'aeroverse-throttle-profiles';
+
+export const loadSavedProfiles = (): NamedProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      const profile = typeof entry?.profile === 'string' ? decodeProfile(entry.profile) : null;
+      return typeof entry?.name === 'string' && profile ? [{ name: entry.name, profile }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: NamedProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.map(({ name, profile }) => ({ name, profile: encodeProfile(profile) }))));
+  } catch {
+    // Private browsing or storage full: the profiles still last for this session
+  }
+  return profiles;
+};
+
+// Saving under an existing name replaces that profile
+export const saveProfile = (saved: NamedProfile[], name: string, profile: ThrottleProfile) =>
+  storeProfiles([...saved.filter((p) => p.name !== name), { name, profile }]);
+
+export const deleteSavedProfile = (saved: NamedProfile[], name: string) => storeProfiles(saved.filter((p) => p.name !== name));
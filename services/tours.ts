@@ -0,0 +1,80 @@
+import { Tour, TourWaypoint } from '../types';
+import { getBodyById } from '../constants';
+import grandTour from '../tours/grand-tour.json';
+
+// Cinematic tours: authored JSON, checked here before the player ever sees it so a typo in a
+// hand-written lecture tour gives a readable error instead of a camera flying to nowhere.
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseWaypoint = (data: unknown, index: number): TourWaypoint => {
+  const where = `Waypoint ${index + 1}`;
+  if (!data || typeof data !== 'object') throw new Error(`${where}: expected an object`);
+  const w = data as Record<string, unknown>;
+
+  if (typeof w.target !== 'string' || !getBodyById(w.target)) {
+    throw new Error(`${where}: unknown target "${String(w.target)}"`);
+  }
+  if (!Array.isArray(w.offset) || w.offset.length !== 3 || !w.offset.every(isNumber)) {
+    throw new Error(`${where}: offset must be [x, y, z]`);
+  }
+  if (!isNumber(w.duration) || w.duration <= 0) {
+    throw new Error(`${where}: duration must be a positive number of seconds`);
+  }
+  if (typeof w.narration !== 'string') {
+    throw new Error(`${where}: narration must be text`);
+  }
+  if (w.date !== undefined && (typeof w.date !== 'string' || Number.isNaN(Date.parse(w.date)))) {
+    throw new Error(`${where}: date must be an ISO date such as "1979-07-09"`);
+  }
+
+  return {
+    target: w.target,
+    offset: [w.offset[0], w.offset[1], w.offset[2]],
+    duration: w.duration,
+    narration: w.narration,
+    date: w.date as string | undefined,
+  };
+};
+
+export const parseTour = (data: unknown): Tour => {
+  if (!data || typeof data !== 'object') throw new Error('Tour must be a JSON object');
+  const t = data as Record<string, unknown>;
+
+  if (typeof t.title !== 'string' || !t.title) throw new Error('Tour needs a title');
+  if (!Array.isArray(t.waypoints) || t.waypoints.length === 0) throw new Error('Tour needs at least one waypoint');
+
+  return {
+    id: typeof t.id === 'string' && t.id ? t.id : t.title.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    title: t.title,
+    description: typeof t.description === 'string' ? t.description : undefined,
+    waypoints: t.waypoints.map(parseWaypoint),
+  };
+};
+
+// Read a tour from a user-supplied .json file
+export const loadTourFile = async (file: File): Promise<Tour> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parseTour(data);
+};
+
+export const BUNDLED_TOURS: Tour[] = [parseTour(grandTour)];
+
+// Tours loaded from files during this session, kept so they survive closing the tour menu
+const sessionTours: Tour[] = [];
+
+export const addSessionTour = (tour: Tour) => {
+  const existing = sessionTours.findIndex((t) => t.id === tour.id);
+  if (existing >= 0) sessionTours.splice(existing, 1);
+  sessionTours.push(tour);
+};
+
+export const getAvailableTours = (): Tour[] => [...BUNDLED_TOURS, ...sessionTours];
+
+export const getTourDuration = (tour: Tour): number =>
+  tour.waypoints.reduce((sum, waypoint) => sum + waypoint.duration, 0);
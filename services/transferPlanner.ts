@@ -0,0 +1,245 @@
+import * as THREE from 'three';
+import { CelestialBodyData } from '../types';
+import { MS_PER_DAY, getHeliocentricPosition, getHeliocentricVelocity, getOrbitalPeriodDays } from './ephemeris';
+import { KM_PER_AU } from './sceneScale';
+
+// Heliocentric two-body mechanics for interplanetary transfers. Internal units are AU and days,
+// with the Sun's gravitational parameter expressed through the Gaussian constant.
+
+const GAUSS_K = 0.01720209895;
+export const MU_SUN = GAUSS_K * GAUSS_K; // AU^3/day^2
+const SQRT_MU = GAUSS_K;
+
+// AU/day to km/s
+export const AU_PER_DAY_TO_KM_S = KM_PER_AU / 86400;
+
+export interface TransferSolution {
+  departureBodyId: string;
+  arrivalBodyId: string;
+  departureMs: number;
+  arrivalMs: number;
+  r1: THREE.Vector3; // Departure position (AU, ecliptic)
+  v1: THREE.Vector3; // Transfer orbit velocity at departure (AU/day)
+  c3: number; // Launch energy, km^2/s^2
+  vInfArrival: number; // Arrival hyperbolic excess speed, km/s
+}
+
+export interface PorkchopGrid {
+  departureBodyId: string;
+  arrivalBodyId: string;
+  departureStartMs: number;
+  departureStepDays: number;
+  tofStartDays: number;
+  tofStepDays: number;
+  columns: number; // Departure dates
+  rows: number; // Times of flight
+  c3: Float32Array; // rows * columns, NaN where no solution
+  vInfArrival: Float32Array;
+}
+
+// --- Stumpff functions for the universal-variable formulation ---
+
+const stumpffC = (z: number): number => {
+  if (z > 1e-8) return (1 - Math.cos(Math.sqrt(z))) / z;
+  if (z < -1e-8) return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+  return 1 / 2;
+};
+
+const stumpffS = (z: number): number => {
+  if (z > 1e-8) {
+    const sz = Math.sqrt(z);
+    return (sz - Math.sin(sz)) / (sz * sz * sz);
+  }
+  if (z < -1e-8) {
+    const sz = Math.sqrt(-z);
+    return (Math.sinh(sz) - sz) / (sz * sz * sz);
+  }
+  return 1 / 6;
+};
+
+/**
+ * Single-revolution, prograde Lambert solver (universal variables, bisection on z).
+ * Returns the velocities at both ends of the transfer, or null when no solution exists.
+ */
+export const solveLambert = (
+  r1: THREE.Vector3,
+  r2: THREE.Vector3,
+  tofDays: number
+): { v1: THREE.Vector3; v2: THREE.Vector3 } | null => {
+  const r1n = r1.length();
+  const r2n = r2.length();
+  const cosDTheta = THREE.MathUtils.clamp(r1.dot(r2) / (r1n * r2n), -1, 1);
+  let dTheta = Math.acos(cosDTheta);
+  // Prograde: motion is counter-clockwise about the ecliptic north pole
+  if (r1.x * r2.y - r1.y * r2.x < 0) dTheta = Math.PI * 2 - dTheta;
+
+  const A = Math.sin(dTheta) * Math.sqrt((r1n * r2n) / (1 - Math.cos(dTheta)));
+  if (!Number.isFinite(A) || Math.abs(A) < 1e-12) return null;
+
+  const y = (z: number) => r1n + r2n + (A * (z * stumpffS(z) - 1)) / Math.sqrt(stumpffC(z));
+  const timeError = (z: number) => {
+    const yz = y(z);
+    return Math.pow(yz / stumpffC(z), 1.5) * stumpffS(z) + A * Math.sqrt(yz) - SQRT_MU * tofDays;
+  };
+
+  let lo = -4 * Math.PI * Math.PI;
+  let hi = 4 * Math.PI * Math.PI - 1e-6; // Beyond this lies the multi-revolution branch
+
+  // y(z) must stay positive; move the lower bracket up to where it is
+  if (y(lo) < 0) {
+    let a = lo, b = hi;
+    for (let i = 0; i < 60; i++) {
+      const mid = (a + b) / 2;
+      if (y(mid) < 0) a = mid; else b = mid;
+    }
+    lo = b;
+  }
+
+  if (timeError(lo) > 0 || timeError(hi) < 0) return null;
+
+  for (let i = 0; i < 80; i++) {
+    const mid = (lo + hi) / 2;
+    if (timeError(mid) < 0) lo = mid; else hi = mid;
+  }
+
+  const yz = y((lo + hi) / 2);
+  const f = 1 - yz / r1n;
+  const g = A * Math.sqrt(yz / MU_SUN);
+  const gdot = 1 - yz / r2n;
+
+  return {
+    v1: r2.clone().addScaledVector(r1, -f).divideScalar(g),
+    v2: r2.clone().multiplyScalar(gdot).sub(r1).divideScalar(g),
+  };
+};
+
+/**
+ * Two-body propagation of a heliocentric state by `dtDays` (universal Kepler equation).
+ * Returns the new position (AU).
+ */
+export const propagatePosition = (
+  r0: THREE.Vector3,
+  v0: THREE.Vector3,
+  dtDays: number,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const r0n = r0.length();
+  const vr0 = r0.dot(v0) / r0n;
+  const alpha = 2 / r0n - v0.lengthSq() / MU_SUN;
+
+  let chi = SQRT_MU * Math.abs(alpha) * dtDays;
+  for (let i = 0; i < 50; i++) {
+    const z = alpha * chi * chi;
+    const C = stumpffC(z);
+    const S = stumpffS(z);
+    const F = ((r0n * vr0) / SQRT_MU) * chi * chi * C + (1 - alpha * r0n) * chi * chi * chi * S + r0n * chi - SQRT_MU * dtDays;
+    const dF = ((r0n * vr0) / SQRT_MU) * chi * (1 - z * S) + (1 - alpha * r0n) * chi * chi * C + r0n;
+    const step = F / dF;
+    chi -= step;
+    if (Math.abs(step) < 1e-10) break;
+  }
+
+  const z = alpha * chi * chi;
+  const f = 1 - ((chi * chi) / r0n) * stumpffC(z);
+  const g = dtDays - (chi * chi * chi * stumpffS(z)) / SQRT_MU;
+  return out.copy(r0).multiplyScalar(f).addScaledVector(v0, g);
+};
+
+// Transfer time of a Hohmann ellipse between two circular orbits (days)
+export const getHohmannTimeDays = (a1: number, a2: number): number =>
+  Math.PI * Math.sqrt(Math.pow(a1 + a2, 3) / (8 * MU_SUN));
+
+// Synodic period of two bodies (days): how often the same departure geometry recurs
+export const getSynodicPeriodDays = (body1: CelestialBodyData, body2: CelestialBodyData): number => {
+  const p1 = getOrbitalPeriodDays(body1.elements!);
+  const p2 = getOrbitalPeriodDays(body2.elements!);
+  return Math.abs(1 / (1 / p1 - 1 / p2));
+};
+
+// Solve a single departure/arrival date pair
+export const solveTransfer = (
+  departure: CelestialBodyData,
+  arrival: CelestialBodyData,
+  departureMs: number,
+  arrivalMs: number
+): TransferSolution | null => {
+  if (!departure.elements || !arrival.elements || arrivalMs <= departureMs) return null;
+
+  const depDate = new Date(departureMs);
+  const arrDate = new Date(arrivalMs);
+  const r1 = getHeliocentricPosition(departure.elements, depDate);
+  const r2 = getHeliocentricPosition(arrival.elements, arrDate);
+
+  const solution = solveLambert(r1, r2, (arrivalMs - departureMs) / MS_PER_DAY);
+  if (!solution) return null;
+
+  const vDep = getHeliocentricVelocity(departure.elements, depDate);
+  const vArr = getHeliocentricVelocity(arrival.elements, arrDate);
+  const vInfDep = solution.v1.clone().sub(vDep).length() * AU_PER_DAY_TO_KM_S;
+
+  return {
+    departureBodyId: departure.id,
+    arrivalBodyId: arrival.id,
+    departureMs,
+    arrivalMs,
+    r1,
+    v1: solution.v1,
+    c3: vInfDep * vInfDep,
+    vInfArrival: solution.v2.clone().sub(vArr).length() * AU_PER_DAY_TO_KM_S,
+  };
+};
+
+/**
+ * Porkchop grid: C3 and arrival v-infinity over departure date (columns) and time of flight (rows).
+ * The default window covers one synodic period and times of flight around the Hohmann transfer time.
+ */
+export const computePorkchop = (
+  departure: CelestialBodyData,
+  arrival: CelestialBodyData,
+  departureStartMs: number,
+  windowDays: number,
+  columns: number = 48,
+  rows: number = 40
+): PorkchopGrid => {
+  const hohmann = getHohmannTimeDays(departure.elements!.semiMajorAxis, arrival.elements!.semiMajorAxis);
+  const tofStartDays = hohmann * 0.4;
+  const tofStepDays = (hohmann * 1.2) / (rows - 1);
+  const departureStepDays = windowDays / (columns - 1);
+
+  const c3 = new Float32Array(rows * columns).fill(NaN);
+  const vInfArrival = new Float32Array(rows * columns).fill(NaN);
+
+  for (let col = 0; col < columns; col++) {
+    const depMs = departureStartMs + col * departureStepDays * MS_PER_DAY;
+    for (let row = 0; row < rows; row++) {
+      const arrMs = depMs + (tofStartDays + row * tofStepDays) * MS_PER_DAY;
+      const solution = solveTransfer(departure, arrival, depMs, arrMs);
+      if (solution) {
+        c3[row * columns + col] = solution.c3;
+        vInfArrival[row * columns + col] = solution.vInfArrival;
+      }
+    }
+  }
+
+  return {
+    departureBodyId: departure.id,
+    arrivalBodyId: arrival.id,
+    departureStartMs,
+    departureStepDays,
+    tofStartDays,
+    tofStepDays,
+    columns,
+    rows,
+    c3,
+    vInfArrival,
+  };
+};
+
+// Departure and arrival dates of a grid cell
+export const getPorkchopCellDates = (grid: PorkchopGrid, col: number, row: number) => {
+  const departureMs = grid.departureStartMs + col * grid.departureStepDays * MS_PER_DAY;
+  return {
+    departureMs,
+    arrivalMs: departureMs + (grid.tofStartDays + row * grid.tofStepDays) * MS_PER_DAY,
+  };
+};
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+
+// Typed quantities and display units. Labs compute in SI and hand values to formatQuantity (or the
+// Measure component) with their dimension; the student's preference picks the unit system and precision.
+
+export type Dimension =
+  | 'length'
+  | 'mass'
+  | 'time'
+  | 'velocity'
+  | 'acceleration'
+  | 'force'
+  | 'power'
+  | 'irradiance'
+  | 'energy'
+  | 'pressure'
+  | 'massFlow';
+
+export type UnitSystem = 'si' | 'imperial' | 'astronomical';
+
+export const UNIT_SYSTEMS: { id: UnitSystem; label: string }[] = [
+  { id: 'si', label: 'SI' },
+  { id: 'imperial', label: 'Imperial' },
+  { id: 'astronomical', label: 'Astro' },
+];
+
+interface Unit {
+  symbol: string;
+  factor: number; // SI value of one unit
+  from?: number; // Smallest SI magnitude shown in this unit (defaults to `factor`)
+}
+
+const AU = 1.495978707e11; // m
+const EARTH_MASS = 5.9722e24; // kg
+const SOLAR_CONSTANT = 1361; // W/m² at 1 AU
+const G0 = 9.80665; // m/s², standard gravity
+
+const u = (symbol: string, factor: number, from?: number): Unit => ({ symbol, factor, from });
+
+const TIME: Unit[] = [u('s', 1), u('min', 60, 600), u('h', 3600, 3 * 3600), u('d', 86400, 3 * 86400)];
+
+// Candidate units per system, smallest first; the largest whose threshold the value reaches is used
+const UNITS: Record<UnitSystem, Record<Dimension, Unit[]>> = {
+  si: {
+    length: [u('m', 1), u('km', 1000, 10_000)],
+    mass: [u('kg', 1), u('t', 1000, 10_000)],
+    time: TIME,
+    velocity: [u('m/s', 1), u('km/s', 1000, 10_000)],
+    acceleration: [u('m/s²', 1)],
+    force: [u('N', 1), u('kN', 1000), u('MN', 1e6)],
+    power: [u('W', 1), u('kW', 1000, 10_000), u('MW', 1e6, 1e7)],
+    irradiance: [u('W/m²', 1)],
+    energy: [u('J', 1), u('kJ', 1e3), u('MJ', 1e6), u('GJ', 1e9)],
+    pressure: [u('Pa', 1), u('kPa', 1000), u('bar', 1e5, 1e6)],
+    massFlow: [u('kg/s', 1)],
+  },
+  imperial: {
+    length: [u('ft', 0.3048), u('mi', 1609.344)],
+    mass: [u('lb', 0.45359237), u('ton', 907.18474, 9071.8474)],
+    time: TIME,
+    velocity: [u('ft/s', 0.3048), u('mph', 0.44704, 0.44704 * 100)],
+    acceleration: [u('ft/s²', 0.3048)],
+    force: [u('lbf', 4.4482216), u('klbf', 4448.2216, 44482.216)],
+    power: [u('W', 1), u('kW', 1000, 10_000), u('MW', 1e6, 1e7)],
+    irradiance: [u('W/ft²', 10.7639104)],
+    energy: [u('ft·lbf', 1.3558179), u('BTU', 1055.05585)],
+    pressure: [u('psi', 6894.75729)],
+    massFlow: [u('lb/s', 0.45359237)],
+  },
+  astronomical: {
+    length: [u('m', 1), u('km', 1000, 10_000), u('AU', AU, AU * 0.01)],
+    mass: [u('kg', 1), u('t', 1000, 10_000), u('M⊕', EARTH_MASS, EARTH_MASS * 0.001)],
+    time: [...TIME, u('yr', 365.25 * 86400, 365.25 * 86400)],
+    velocity: [u('m/s', 1), u('km/s', 1000, 1000)],
+    acceleration: [u('g₀', G0, 0)],
+    force: [u('N', 1), u('kN', 1000), u('MN', 1e6)],
+    power: [u('W', 1), u('kW', 1000, 10_000), u('MW', 1e6, 1e7)],
+    irradiance: [u('S⊕', SOLAR_CONSTANT, 0)], // Multiples of the sunlight at Earth's orbit
+    energy: [u('J', 1), u('kJ', 1e3), u('MJ', 1e6), u('GJ', 1e9)],
+    pressure: [u('bar', 1e5, 0)],
+    massFlow: [u('kg/s', 1)],
+  },
+};
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  sigFigs: number;
+}
+
+export const MIN_SIG_FIGS = 2;
+export const MAX_SIG_FIGS = 6;
+const DEFAULT_PREFERENCES: UnitPreferences = { system: 'si', sigFigs: 3 };
+
+const pickUnit = (valueSI: number, dimension: Dimension, system: UnitSystem): Unit => {
+  const units = UNITS[system][dimension];
+  const magnitude = Math.abs(valueSI);
+  return units.reduce((best, unit) => (magnitude >= (unit.from ?? unit.factor) ? unit : best), units[0]);
+};
+
+// Round to significant figures; very large or small values switch to scientific notation
+export const formatNumber = (value: number, sigFigs: number): string => {
+  if (!Number.isFinite(value)) return value > 0 ? '∞' : value < 0 ? '-∞' : '—';
+  const magnitude = Math.abs(value);
+  const scientific = magnitude !== 0 && (magnitude >= 1e9 || magnitude < 1e-3);
+  return new Intl.NumberFormat(undefined, {
+    maximumSignificantDigits: sigFigs,
+    notation: scientific ? 'scientific' : 'standard',
+  }).format(value);
+};
+
+export interface FormattedQuantity {
+  value: string;
+  unit: string;
+}
+
+export const formatQuantity = (
+  valueSI: number,
+  dimension: Dimension,
+  { system, sigFigs }: UnitPreferences = preferences
+): FormattedQuantity => {
+  const unit = pickUnit(valueSI, dimension, system);
+  return { value: formatNumber(valueSI / unit.factor, sigFigs), unit: unit.symbol };
+};
+
+// "12.3 km" style, for text that isn't laid out with a separate unit label
+export const formatQuantityText = (valueSI: number, dimension: Dimension, prefs?: UnitPreferences) => {
+  const { value, unit } = formatQuantity(valueSI, dimension, prefs);
+  return `${value} ${unit}`;
+};
+
+// For labs that keep distances in AU
+export const AU_METERS = AU;
+
+// --- Preference (global, remembered in localStorage) ---
+
+const STORAGE_KEY = 'aeroverse-units';
+const CHANGE_EVENT = 'unitpreferencechange';
+
+const readPreferences = (): UnitPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    const system = UNIT_SYSTEMS.some((s) => s.id === stored?.system) ? stored.system : DEFAULT_PREFERENCES.system;
+    const sigFigs = Number.isInteger(stored?.sigFigs)
+      ? Math.min(MAX_SIG_FIGS, Math.max(MIN_SIG_FIGS, stored.sigFigs))
+      : DEFAULT_PREFERENCES.sigFigs;
+    return { system, sigFigs };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+let preferences: UnitPreferences = typeof localStorage === 'undefined' ? DEFAULT_PREFERENCES : readPreferences();
+
+export const getUnitPreferences = () => preferences;
+
+export const setUnitPreferences = (changes: Partial<UnitPreferences>) => {
+  preferences = { ...preferences, ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Private browsing or storage full: the preference still applies for this session
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Current preference, re-rendering when it changes anywhere in the app
+export const useUnitPreferences = (): UnitPreferences => {
+  const [value, setValue] = useState(preferences);
+
+  useEffect(() => {
+    const update = () => setValue(preferences);
+    window.addEventListener(CHANGE_EVENT, update);
+    return () => window.removeEventListener(CHANGE_EVENT, update);
+  }, []);
+
+  return value;
+};
@@ -9,25 +9,147 @@ export enum ViewState {
   ORBITAL_LAB = 'ORBITAL_LAB',
 }
 
+// Circular orbit of a moon around its parent, in the parent's frame
+export interface MoonOrbit {
+  semiMajorAxisKm: number;
+  periodDays: number; // Sidereal period; negative for retrograde orbits
+  inclination: number; // Tilt of the orbit plane in degrees (0-90; direction comes from the period sign)
+  phase: number; // Mean longitude at the J2000 epoch, degrees
+}
+
+// Classical J2000 Keplerian elements (heliocentric, ecliptic frame). Angles in degrees.
+export interface OrbitalElements {
+  semiMajorAxis: number; // AU
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPerihelion: number;
+  meanAnomaly: number; // At the J2000 epoch
+}
+
+// Near-surface atmosphere (the 1 bar level for giant planets), for pressure and drag models
+export interface AtmosphereModel {
+  surfacePressure: number; // bar
+  surfaceDensity: number; // kg/m³
+  scaleHeightKm: number; // Height over which pressure and density fall by a factor of e
+  meanMolarMass: number; // g/mol
+}
+
 export interface CelestialBodyData {
   id: string;
   name: string;
   color: string;
   radius: number; // Relative visual size
-  distance: number; // Distance from Sun
-  speed: number; // Orbital speed factor
+  radiusKm: number; // Mean physical radius
+  distance: number; // Distance from Sun (moons: from parent)
   description: string;
   moons?: number;
-  type: 'star' | 'planet' | 'dwarf';
+  type: 'star' | 'planet' | 'dwarf' | 'moon';
+  elements?: OrbitalElements;
+  parentId?: string; // Moons only
+  moonOrbit?: MoonOrbit;
+  // Real physical properties, shared by the 3D scene and every lab
+  massKg: number;
+  gm: number; // Standard gravitational parameter, km³/s²
+  equatorialRadiusKm: number;
+  surfaceGravity: number; // m/s², at the 1 bar level for giant planets
+  rotationPeriodHours: number; // Sidereal; negative for retrograde rotation
+  albedo: number | null; // Geometric albedo; null for the Sun
+  atmosphere: AtmosphereModel | null; // null for airless bodies (including tenuous exospheres) and the Sun
+}
+
+// One stop of a cinematic tour. Tours are authored as JSON (see tours/grand-tour.json).
+export interface TourWaypoint {
+  target: string; // Body id from SOLAR_SYSTEM_DATA or MOON_DATA
+  offset: [number, number, number]; // Camera offset from the target, in multiples of its focus distance
+  duration: number; // Seconds spent on this waypoint, including the flight to it
+  narration: string;
+  date?: string; // Optional ISO date the simulation clock jumps to on arrival
+}
+
+export interface Tour {
+  id: string;
+  title: string;
+  description?: string;
+  waypoints: TourWaypoint[];
+}
+
+// A value with the unit it was reported in; parsed engineering data is normalised to the canonical unit
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+export interface AtmosphereConstituent {
+  gas: string; // Chemical formula, e.g. "CO2"
+  percent: number; // By volume
 }
 
 export interface PlanetEngineeringInfo {
-  gravity: string;
-  temperature: string;
-  atmosphere: string;
+  surfaceGravity: Quantity; // m/s²
+  meanTemperature: Quantity; // K
+  minTemperature: Quantity | null; // K, null when not reported
+  maxTemperature: Quantity | null;
+  surfacePressure: Quantity | null; // bar; the 1-bar level for giant planets, null where there is no surface (the Sun)
+  atmosphere: AtmosphereConstituent[]; // Major constituents, empty for airless bodies
   engineeringChallenge: string;
 }
 
+// Bundled reference values in canonical units (K); null fields are not checked.
+// Gravity and surface pressure come from the body catalog (CelestialBodyData).
+export interface EngineeringReference {
+  meanTemperature: number;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  atmosphere: AtmosphereConstituent[];
+  engineeringChallenge: string;
+}
+
+// A propellant combination; sets the colour of the Rocket Lab's exhaust plume
+export interface PropellantData {
+  id: string;
+  name: string;
+  fuel: string;
+  oxidizer: string | null; // null for solids (premixed) and ion propellant
+  flameColor: string;
+  description: string;
+}
+
+// An engine the Rocket Lab's stage designer can fit
+export interface RocketEngineData {
+  id: string;
+  name: string;
+  propellantId: string;
+  massFlow: number; // kg/s per engine at full throttle
+  seaLevelIsp: number | null; // s; null for vacuum engines that can't run at sea level
+  vacuumIsp: number; // s
+  chamberPressure: number | null; // bar; null where there is no combustion chamber (ion)
+  expansionRatio: number | null; // Nozzle exit area / throat area
+  mixtureRatio: number | null; // Oxidizer to fuel by mass; null for solids and ion
+  mass: number; // kg per engine (case mass for solids), counted in its stage's dry mass
+  minThrottle: number; // Deepest throttle as a share of full thrust; 1 for engines that only run flat out
+}
+
+// One stage of a rocket in the Rocket Lab, bottom stage first
+export interface RocketStage {
+  dryMass: number; // kg of tanks and structure (plus the payload, for the top stage), without engines
+  propellantMass: number; // kg
+  engineId: string;
+  engineCount: number;
+}
+
+// A point on a Rocket Lab throttle curve, in seconds after launch
+export interface ThrottleKeyframe {
+  time: number; // s
+  throttle: number; // Share of full thrust, 0 for a cutoff
+  hold: boolean; // Keep this throttle until the next keyframe instead of ramping to it
+}
+
+export interface ThrottleProfile {
+  keyframes: ThrottleKeyframe[]; // Sorted by time, the first at launch; the last value holds to the end
+  maxLoad: number | null; // g; throttle back whenever the crew would feel more than this
+}
+
 export interface SatelliteData {
   id: string;
   name: string;
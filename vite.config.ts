@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // xfwd passes the student's address on, so the proxy can rate-limit each browser separately
+    const proxy = { '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, xfwd: true } };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
+      // Only non-secret settings are exposed to the browser; the Gemini key stays with the lab proxy (server/)
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        'process.env.LOCAL_AI_URL': JSON.stringify(env.LOCAL_AI_URL),
+        'process.env.LOCAL_AI_MODEL': JSON.stringify(env.LOCAL_AI_MODEL),
+        'process.env.LOCAL_AI_API': JSON.stringify(env.LOCAL_AI_API)
       },
       resolve: {
         alias: {